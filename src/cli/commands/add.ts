@@ -3,6 +3,7 @@ import ora from "ora";
 import inquirer from "inquirer";
 import SwaggerParser from "@apidevtools/swagger-parser";
 import { loadConfigSimple, saveConfig } from "../../config/loader.js";
+import { isValidSpecSource, resolveSpecSource } from "../../parser/openapi.js";
 
 interface AddOptions {
   name?: string;
@@ -44,39 +45,43 @@ export async function runAdd(options: AddOptions): Promise<void> {
     specName = name;
   }
 
-  // Spec URL input
+  // Spec URL (or local file path) input
   let specUrl = options.url;
   if (!specUrl) {
     const { url } = await inquirer.prompt([
       {
         type: "input",
         name: "url",
-        message: "OpenAPI spec URL:",
-        validate: (input) => {
-          if (!input.trim()) return "Please enter a URL.";
-          try {
-            new URL(input);
-            return true;
-          } catch {
-            return "Please enter a valid URL.";
+        message: "OpenAPI spec URL or file path (JSON/YAML):",
+        validate: async (input: string) => {
+          if (!input.trim()) return "Please enter a URL or file path.";
+          if (!(await isValidSpecSource(input.trim()))) {
+            return "Please enter a valid URL or an existing file path.";
           }
+          return true;
         },
       },
     ]);
-    specUrl = url;
+    specUrl = url.trim();
   }
 
-  // Validate URL using swagger-parser
+  // Validate spec using swagger-parser
   const spinner = ora("Validating OpenAPI spec...").start();
   try {
-    // swagger-parser가 URL에서 스펙을 가져오고 유효성 검증까지 수행
-    const spec = await SwaggerParser.validate(specUrl!);
+    // swagger-parser가 URL/파일에서 스펙을 가져오고 유효성 검증까지 수행
+    const spec = await SwaggerParser.validate(resolveSpecSource(specUrl!));
 
     const title = spec.info?.title || specName;
     const version = "openapi" in spec ? spec.openapi : (spec as { swagger?: string }).swagger;
     const endpointCount = Object.keys(spec.paths || {}).length;
 
-    spinner.succeed(`OpenAPI ${version} spec validated (${endpointCount} endpoints)`);
+    const isSwagger = !("openapi" in spec);
+    spinner.succeed(
+      `${isSwagger ? "Swagger" : "OpenAPI"} ${version} spec validated (${endpointCount} endpoints)`
+    );
+    if (isSwagger) {
+      console.log(chalk.gray("  Swagger 2.0 specs are converted to OpenAPI 3.0 during generation."));
+    }
 
     // Description input
     const { description } = await inquirer.prompt([
@@ -98,7 +103,7 @@ export async function runAdd(options: AddOptions): Promise<void> {
     await saveConfig(config);
 
     console.log(chalk.green(`\n✓ ${specName} added successfully!`));
-    console.log(chalk.gray(`  URL: ${specUrl}`));
+    console.log(chalk.gray(`  Source: ${specUrl}`));
     console.log(chalk.gray(`  Endpoints: ${endpointCount}`));
     console.log("");
     console.log(chalk.cyan(`Run 'oprq generate --spec ${specName}' to generate API code.`));
@@ -3,6 +3,13 @@ import path from "path";
 import chalk from "chalk";
 import ora from "ora";
 import inquirer from "inquirer";
+import { isValidSpecSource } from "../../parser/openapi.js";
+import {
+  escapeComment,
+  generateOperationId,
+  safePropertyKey,
+  toStringLiteral,
+} from "../../utils/formatting.js";
 
 const CONFIG_FILE_NAME = "oprq.config.json";
 
@@ -81,15 +88,13 @@ export async function runCreate(options: CreateOptions): Promise<void> {
         {
           type: "input",
           name: "specUrl",
-          message: "OpenAPI spec URL (optional, press Enter to skip):",
-          validate: (input) => {
+          message: "OpenAPI spec URL or file path (optional, press Enter to skip):",
+          validate: async (input: string) => {
             if (!input.trim()) return true;
-            try {
-              new URL(input);
-              return true;
-            } catch {
-              return "Please enter a valid URL.";
+            if (!(await isValidSpecSource(input.trim()))) {
+              return "Please enter a valid URL or an existing file path.";
             }
+            return true;
           },
         },
         {
@@ -293,7 +298,7 @@ function generatePlaceholderFile(options: GenerateFileOptions): string {
 
   const pathParamsType =
     pathParams.length > 0
-      ? `{ ${pathParams.map((p) => `${p}: string`).join("; ")} }`
+      ? `{ ${pathParams.map((p) => `${safePropertyKey(p)}: string`).join("; ")} }`
       : "Record<string, never>";
 
   const hasRequiredPathParams = pathParams.length > 0;
@@ -358,7 +363,7 @@ export const use${pascalCaseId}Query = <TData = Response, TError = ErrorResponse
 ): UseQueryResult<TData, TError> => {
   return useQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: () => ${operationId}(req),
+    queryFn: ({ signal }) => ${operationId}({ ...req, signal }),
     ...options,
   });
 };
@@ -374,7 +379,7 @@ export const use${pascalCaseId}SuspenseQuery = <TData = Response, TError = Error
 ): UseSuspenseQueryResult<TData, TError> => {
   return useSuspenseQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: () => ${operationId}(req),
+    queryFn: ({ signal }) => ${operationId}({ ...req, signal }),
     ...options,
   });
 };
@@ -394,9 +399,10 @@ export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
 ): UseInfiniteQueryResult<InfiniteData<Response>, ErrorResponse> => {
   return useInfiniteQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: ({ pageParam }) => ${operationId}({
+    queryFn: ({ pageParam, signal }) => ${operationId}({
       ...req,
       queryParams: { ...req.queryParams, ...(pageParam as Record<string, unknown>) },
+      signal,
     } as RequestArgs),
     ...options,
   });
@@ -416,9 +422,10 @@ export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
 ): UseInfiniteQueryResult<InfiniteData<Response>, ErrorResponse> => {
   return useInfiniteQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: ({ pageParam }) => ${operationId}({
+    queryFn: ({ pageParam, signal }) => ${operationId}({
       ...req,
       queryParams: { ...req.queryParams, ...(pageParam as Record<string, unknown>) },
+      signal,
     } as RequestArgs),
     ...options,
   });
@@ -447,7 +454,7 @@ export const use${pascalCaseId}Mutation = <TContext = unknown>(
   const now = new Date().toISOString();
 
   return `/**
- * ${method.toUpperCase()} ${apiPath}
+ * ${method.toUpperCase()} ${escapeComment(apiPath)}
  * ⚠️ PLACEHOLDER - This file was created with 'oprq create'
  * Replace with 'oprq generate --overwrite' when the actual API is ready.
  * Generated at: ${now}
@@ -471,15 +478,17 @@ export interface RequestArgs {
   pathParams${hasRequiredPathParams ? "" : "?"}: PathParams;
   queryParams?: QueryParams;
   body${hasRequiredBody ? "" : "?"}: Body;
+  /** Cancels the request (React Query hooks pass their AbortSignal automatically) */
+  signal?: AbortSignal;
   config?: RequestConfig;
 }
 
 // ===== API URL =====
-const API_URL = "${specName}:${apiPath}";
+const API_URL = ${toStringLiteral(`${specName}:${apiPath}`)};
 
 // ===== Query Keys =====
 export const ${operationId}QueryKey = (req: RequestArgs) =>
-  ["${specName}", "${method}", "${apiPath}", req] as const;
+  [${toStringLiteral(specName)}, ${toStringLiteral(method)}, ${toStringLiteral(apiPath)}, req] as const;
 
 // ===== Repository =====
 /**
@@ -489,28 +498,13 @@ export const ${operationId}QueryKey = (req: RequestArgs) =>
 export const ${operationId} = async (args: RequestArgs${argsDefault}): Promise<Response> => {
   // TODO: Uncomment when API is ready
   // const url = new StringReplacer(API_URL).replaceText(args?.pathParams ?? {});
-  // const http = getHttpClient();
-  // return http.${method.toLowerCase()}(url${["POST", "PUT", "PATCH"].includes(method) ? ", args?.body" : ""}, { params: args?.queryParams, ...args?.config });
+  // return getHttpClient("${specName}").request<Response>({ method: "${method.toUpperCase()}", url, query: args?.queryParams${method.toUpperCase() !== "GET" ? ", body: args?.body" : ""}, signal: args?.signal, config: args?.config });
 
   throw new Error("${operationId}: Not implemented - this is a placeholder API");
 };
 ${hooksCode}`;
 }
 
-function generateOperationId(method: string, apiPath: string): string {
-  const pathParts = apiPath
-    .split("/")
-    .filter(Boolean)
-    .map((part) => {
-      if (part.startsWith("{") && part.endsWith("}")) {
-        return "By" + toPascalCase(part.slice(1, -1));
-      }
-      return toPascalCase(part);
-    });
-
-  return method.toLowerCase() + pathParts.join("");
-}
-
 function toPascalCase(str: string): string {
   return str
     .replace(/[-_](.)/g, (_, c) => c.toUpperCase())
@@ -10,9 +10,15 @@ import {
   type ReactQueryConfig,
 } from "../prompts/selectReactQueryVersion.js";
 import { fetchOpenApiSpec } from "../../parser/openapi.js";
-import { extractAllApis } from "../../parser/apis.js";
+import {
+  extractAllApis,
+  formatOperationIdCollision,
+  resolveOperationIds,
+} from "../../parser/apis.js";
 import { generateApiFile } from "../../generator/fileGenerator.js";
-import { generateUtilityFiles, oprqFolderExists } from "../../generator/templates.js";
+import { ensureUtilityFiles, generateSpecRegistry } from "../../generator/templates.js";
+import { generateModelFiles } from "../../generator/modelGenerator.js";
+import { generateSpecFile } from "../../generator/specGenerator.js";
 import { loadConfigSimple, type OprqConfig, type ReactQueryVersion } from "../../config/loader.js";
 import { fileExists, generateFileName } from "../../utils/files.js";
 import type { SpecName } from "../../config/specs.js";
@@ -61,16 +67,21 @@ export async function runInteractiveMode(options: GenerateOptions): Promise<void
   const specConfig = specs[specName];
 
   // Step 2: Fetch OpenAPI spec
-  const spinner = ora(`Fetching OpenAPI spec from ${specName}...`).start();
+  const spinner = ora(`Loading OpenAPI spec from ${specName}...`).start();
   let openApiSpec;
   try {
     openApiSpec = await fetchOpenApiSpec(specConfig.url);
     spinner.succeed(`Loaded ${Object.keys(openApiSpec.paths || {}).length} endpoints`);
   } catch (error) {
-    spinner.fail("Failed to fetch OpenAPI spec");
+    spinner.fail("Failed to load OpenAPI spec");
     throw error;
   }
 
+  // Report operationIds renamed to avoid collisions
+  for (const collision of resolveOperationIds(openApiSpec).collisions) {
+    console.log(chalk.yellow(`⚠ operationId collision: ${formatOperationIdCollision(collision)}`));
+  }
+
   // Step 3: Selection mode
   let selectedApis;
   if (options.all) {
@@ -100,12 +111,39 @@ export async function runInteractiveMode(options: GenerateOptions): Promise<void
   // Step 5: Select output path
   const outputPath = options.output || config?.outputPath || await selectOutputPath();
 
-  // Step 6: Ensure utility files exist (only if not already present)
+  // Step 6: Ensure utility files exist and match the current templates
   const fullOutputPath = process.cwd() + "/" + outputPath;
-  const utilsExist = await oprqFolderExists(fullOutputPath);
-  if (!utilsExist) {
-    await generateUtilityFiles(fullOutputPath, config.keepSpecPrefix ?? true);
-    console.log(chalk.green("✓ Utility files created"));
+  const utilsStatus = await ensureUtilityFiles(
+    fullOutputPath,
+    config.keepSpecPrefix ?? true,
+    config.httpClient ?? "axios"
+  );
+  if (utilsStatus !== "current") {
+    console.log(chalk.green(`✓ Utility files ${utilsStatus}`));
+  }
+
+  // Step 6.2: Generate spec info (base URL) and refresh the spec registry
+  await generateSpecFile({
+    specName,
+    specOutputPath: `${fullOutputPath}/${specName}`,
+    openApiSpec,
+    specConfig,
+  });
+  await generateSpecRegistry(fullOutputPath);
+
+  // Step 6.5: Generate shared model files (always regenerated from the spec)
+  const modelsMode = config.generate?.models ?? "inline";
+  if (modelsMode !== "inline") {
+    const modelFiles = await generateModelFiles({
+      specName,
+      specOutputPath: `${fullOutputPath}/${specName}`,
+      openApiSpec,
+      mode: modelsMode,
+      enums: config.generate?.enums,
+      formats: config.generate?.formats,
+      zod: config.generate?.zod || config.generate?.validateResponses,
+    });
+    console.log(chalk.green(`✓ Model files generated (${modelFiles.length} files)`));
   }
 
   // Step 7: Summary and confirmation
@@ -152,6 +190,11 @@ export async function runInteractiveMode(options: GenerateOptions): Promise<void
         openApiSpec,
         reactQueryConfig,
         hookOptions: config.generate,
+        models: modelsMode,
+        enums: config.generate?.enums,
+        formats: config.generate?.formats,
+        zod: config.generate?.zod,
+        validateResponses: config.generate?.validateResponses,
       });
       generatedFiles.push(filePath);
     } catch (error) {
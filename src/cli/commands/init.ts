@@ -6,6 +6,7 @@ import inquirer from "inquirer";
 import type { ReactQueryVersion } from "../prompts/selectReactQueryVersion.js";
 import { selectReactQueryVersion } from "../prompts/selectReactQueryVersion.js";
 import { generateUtilityFiles } from "../../generator/templates.js";
+import type { HttpClientType } from "../../config/loader.js";
 
 interface InitOptions {
   output?: string;
@@ -42,7 +43,21 @@ export async function runInit(options: InitOptions): Promise<void> {
   // Step 2: Select React Query version
   const reactQueryConfig = await selectReactQueryVersion();
 
-  // Step 3: Select keepSpecPrefix option
+  // Step 3: Select HTTP client
+  const { httpClient } = await inquirer.prompt<{ httpClient: HttpClientType }>([
+    {
+      type: "list",
+      name: "httpClient",
+      message: "HTTP client:",
+      choices: [
+        { name: "axios", value: "axios" },
+        { name: "fetch (no axios dependency)", value: "fetch" },
+      ],
+      default: "axios",
+    },
+  ]);
+
+  // Step 3.5: Select keepSpecPrefix option
   const { keepSpecPrefix } = await inquirer.prompt([
     {
       type: "confirm",
@@ -54,9 +69,19 @@ export async function runInit(options: InitOptions): Promise<void> {
 
   // Show explanation based on selection
   if (keepSpecPrefix) {
-    console.log(chalk.gray("  → Use interceptor to route baseURL by prefix"));
+    console.log(
+      chalk.gray(
+        "  → Set each spec's base URL with specs.{SPEC}.baseUrl or configureSpec(spec, { baseUrl })"
+      )
+    );
   } else {
-    console.log(chalk.gray("  → Use single baseURL with axios.create({ baseURL })"));
+    console.log(
+      chalk.gray(
+        httpClient === "fetch"
+          ? "  → Set base URLs with configureSpec(spec, { baseUrl }) or setHttpClient({ baseUrl })"
+          : "  → Set base URLs with configureSpec(spec, { baseUrl }) or axios.create({ baseURL })"
+      )
+    );
   }
 
   // Step 4: Ask about example spec
@@ -113,7 +138,7 @@ export async function runInit(options: InitOptions): Promise<void> {
           $schema: "https://unpkg.com/oprq/schema.json",
           outputPath: outputPath,
           reactQueryVersion: reactQueryConfig.version,
-          httpClient: "axios",
+          httpClient: httpClient,
           keepSpecPrefix: keepSpecPrefix,
           specs: specs,
           generate: {
@@ -132,7 +157,7 @@ export async function runInit(options: InitOptions): Promise<void> {
     // Step 5: Create utility files
     spinner.start("Creating utility files...");
     const fullOutputPath = path.join(process.cwd(), outputPath);
-    await generateUtilityFiles(fullOutputPath, keepSpecPrefix);
+    await generateUtilityFiles(fullOutputPath, keepSpecPrefix, httpClient);
     spinner.succeed("Utility files created");
 
     console.log(chalk.green("\n✓ Initialization complete!\n"));
@@ -144,7 +169,9 @@ export async function runInit(options: InitOptions): Promise<void> {
     console.log("");
     console.log(chalk.yellow("📦 Don't forget to install peer dependencies:"));
     const queryPackage = reactQueryConfig.version === "v3" ? "react-query" : "@tanstack/react-query";
-    console.log(chalk.white(`   npm install axios ${queryPackage}`));
+    console.log(
+      chalk.white(`   npm install ${httpClient === "axios" ? "axios " : ""}${queryPackage}`)
+    );
     console.log("");
     console.log(
       chalk.cyan("Run 'oprq generate' to generate API files.")
@@ -1,5 +1,6 @@
 import chalk from "chalk";
 import { loadConfigSimple } from "../../config/loader.js";
+import { isRemoteSpecSource } from "../../parser/openapi.js";
 
 /**
  * List registered OpenAPI specs
@@ -33,7 +34,8 @@ export async function listSpecs(): Promise<void> {
     if (spec.description) {
       console.log(`      ${chalk.gray(spec.description)}`);
     }
-    console.log(`      ${chalk.gray(spec.url)}`);
+    const sourceType = isRemoteSpecSource(spec.url) ? "" : " (local file)";
+    console.log(`      ${chalk.gray(spec.url + sourceType)}`);
   });
 
   console.log(chalk.gray(`\nTotal: ${specEntries.length} specs\n`));
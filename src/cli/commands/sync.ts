@@ -3,8 +3,15 @@ import chalk from "chalk";
 import ora from "ora";
 import inquirer from "inquirer";
 import { fetchOpenApiSpec } from "../../parser/openapi.js";
-import { extractAllApis } from "../../parser/apis.js";
+import {
+  extractAllApis,
+  formatOperationIdCollision,
+  resolveOperationIds,
+} from "../../parser/apis.js";
 import { generateApiFile } from "../../generator/fileGenerator.js";
+import { generateModelFiles } from "../../generator/modelGenerator.js";
+import { generateSpecFile } from "../../generator/specGenerator.js";
+import { ensureUtilityFiles, generateSpecRegistry } from "../../generator/templates.js";
 import { getReactQueryConfig } from "../prompts/selectReactQueryVersion.js";
 import { loadConfigSimple } from "../../config/loader.js";
 import { generateFileName } from "../../utils/files.js";
@@ -98,6 +105,17 @@ export async function runSync(options: SyncOptions): Promise<void> {
   const configVersion = config.reactQueryVersion || config.reactQuery?.version || "v5";
   const reactQueryConfig = getReactQueryConfig(configVersion);
   const outputPath = config.outputPath || "src/api";
+  const modelsMode = config.generate?.models ?? "inline";
+
+  // Regenerate utility files when they are missing or outdated
+  const utilsStatus = await ensureUtilityFiles(
+    path.join(process.cwd(), outputPath),
+    config.keepSpecPrefix ?? true,
+    config.httpClient ?? "axios"
+  );
+  if (utilsStatus !== "current") {
+    console.log(chalk.green(`✓ Utility files ${utilsStatus}`));
+  }
 
   // Sync each spec
   let totalGenerated = 0;
@@ -107,7 +125,7 @@ export async function runSync(options: SyncOptions): Promise<void> {
     const specConfig = specs[specName];
     console.log(chalk.bold(`\n[${specName}]`));
 
-    const spinner = ora(`Fetching OpenAPI spec...`).start();
+    const spinner = ora(`Loading OpenAPI spec...`).start();
 
     try {
       // Load spec
@@ -115,8 +133,33 @@ export async function runSync(options: SyncOptions): Promise<void> {
       const endpoints = Object.keys(openApiSpec.paths || {}).length;
       spinner.succeed(`Loaded ${endpoints} endpoints`);
 
+      // Generate spec info (base URL)
+      await generateSpecFile({
+        specName,
+        specOutputPath: path.join(process.cwd(), outputPath, specName),
+        openApiSpec,
+        specConfig,
+      });
+
+      // Generate shared model files
+      if (modelsMode !== "inline") {
+        await generateModelFiles({
+          specName,
+          specOutputPath: path.join(process.cwd(), outputPath, specName),
+          openApiSpec,
+          mode: modelsMode,
+          enums: config.generate?.enums,
+          formats: config.generate?.formats,
+          zod: config.generate?.zod || config.generate?.validateResponses,
+        });
+      }
+
       // Extract APIs
       const apis = extractAllApis(openApiSpec);
+      // Report operationIds renamed to avoid collisions
+      for (const collision of resolveOperationIds(openApiSpec).collisions) {
+        console.log(chalk.yellow(`  ⚠ operationId collision: ${formatOperationIdCollision(collision)}`));
+      }
 
       // Generate files
       const generateSpinner = ora(`Generating ${apis.length} files...`).start();
@@ -140,6 +183,11 @@ export async function runSync(options: SyncOptions): Promise<void> {
             openApiSpec,
             reactQueryConfig,
             hookOptions: config.generate,
+            models: modelsMode,
+            enums: config.generate?.enums,
+            formats: config.generate?.formats,
+            zod: config.generate?.zod,
+            validateResponses: config.generate?.validateResponses,
           });
           generated++;
         } catch (error) {
@@ -159,7 +207,7 @@ export async function runSync(options: SyncOptions): Promise<void> {
       totalGenerated += generated;
       totalFailed += failed;
     } catch (error) {
-      spinner.fail("Failed to fetch spec");
+      spinner.fail("Failed to load spec");
       if (error instanceof Error) {
         console.log(chalk.gray(`  ${error.message}`));
       }
@@ -167,6 +215,9 @@ export async function runSync(options: SyncOptions): Promise<void> {
     }
   }
 
+  // Refresh the spec registry
+  await generateSpecRegistry(path.join(process.cwd(), outputPath));
+
   // Result
   console.log(chalk.bold("\n========================================"));
   console.log(chalk.bold("  Result"));
@@ -1,17 +1,16 @@
 import inquirer from "inquirer";
 import { fzfSelect, checkFzfInstalled } from "../../utils/fzf.js";
+import { extractAllApis, type ApiInfo } from "../../parser/apis.js";
+import type { OpenApiSpec } from "../../parser/openapi.js";
 import type { SelectionMode } from "./selectMode.js";
 
-interface ApiInfo {
-  method: string;
-  path: string;
-  operationId: string;
-  tags?: string[];
-}
+const SELECTABLE_METHODS = ["get", "post", "put", "patch", "delete"];
 
-interface OpenApiSpec {
-  paths: Record<string, Record<string, any>>;
-  tags?: Array<{ name: string; description?: string }>;
+/**
+ * 선택 가능한 API 목록 (operationId는 스펙 전체 기준으로 중복 없이 결정됨)
+ */
+function getSelectableApis(spec: OpenApiSpec): ApiInfo[] {
+  return extractAllApis(spec).filter((api) => SELECTABLE_METHODS.includes(api.method));
 }
 
 /**
@@ -34,24 +33,13 @@ export async function selectApis(
 async function selectByController(spec: OpenApiSpec): Promise<ApiInfo[]> {
   const tagMap = new Map<string, ApiInfo[]>();
 
-  for (const [path, methods] of Object.entries(spec.paths || {})) {
-    for (const [method, operation] of Object.entries(methods)) {
-      if (!["get", "post", "put", "patch", "delete"].includes(method)) continue;
-
-      const tags = operation.tags || ["untagged"];
-      const apiInfo: ApiInfo = {
-        method,
-        path,
-        operationId: operation.operationId || `${method}_${path}`,
-        tags,
-      };
-
-      for (const tag of tags) {
-        if (!tagMap.has(tag)) {
-          tagMap.set(tag, []);
-        }
-        tagMap.get(tag)!.push(apiInfo);
+  for (const apiInfo of getSelectableApis(spec)) {
+    const tags = apiInfo.tags?.length ? apiInfo.tags : ["untagged"];
+    for (const tag of tags) {
+      if (!tagMap.has(tag)) {
+        tagMap.set(tag, []);
       }
+      tagMap.get(tag)!.push(apiInfo);
     }
   }
 
@@ -107,20 +95,7 @@ async function selectByController(spec: OpenApiSpec): Promise<ApiInfo[]> {
  * 개별 엔드포인트 선택 - fzf 사용
  */
 async function selectByEndpoint(spec: OpenApiSpec): Promise<ApiInfo[]> {
-  const allApis: ApiInfo[] = [];
-
-  for (const [path, methods] of Object.entries(spec.paths || {})) {
-    for (const [method, operation] of Object.entries(methods)) {
-      if (!["get", "post", "put", "patch", "delete"].includes(method)) continue;
-
-      allApis.push({
-        method,
-        path,
-        operationId: operation.operationId || `${method}_${path}`,
-        tags: operation.tags,
-      });
-    }
-  }
+  const allApis = getSelectableApis(spec);
 
   // 정렬
   allApis.sort((a, b) => {
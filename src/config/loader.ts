@@ -6,23 +6,94 @@ import { CONFIG_FILE_NAME } from "../constants/index.js";
  * oprq.config.json 설정 타입
  */
 export interface SpecConfig {
+  /**
+   * 스펙 소스: http(s) URL, file:// URL, 또는 로컬 파일 경로 (JSON/YAML)
+   * 상대 경로는 oprq.config.json 위치(cwd) 기준
+   */
   url: string;
   description?: string;
+  /**
+   * 생성 코드가 이 스펙의 요청에 사용할 기본 URL
+   * 생략 시 스펙의 첫 번째 server URL 사용 (런타임에 configureSpec으로 변경 가능)
+   */
+  baseUrl?: string;
 }
 
 export type ReactQueryVersion = "v3" | "v4" | "v5";
 
+/**
+ * 컴포넌트 스키마 출력 방식
+ * - inline: 각 엔드포인트 파일에 타입을 인라인 (기본값)
+ * - split: {SPEC}/models/{Name}.ts 로 스키마별 파일 생성
+ * - single: {SPEC}/models.ts 단일 파일 생성
+ */
+export type ModelsMode = "inline" | "split" | "single";
+
+/**
+ * enum 출력 방식
+ * - union: 문자열 리터럴 union 타입 (기본값)
+ * - const: const 객체 + 값 타입 + {Name}Values 배열 (컴포넌트 enum과 파라미터의 인라인 enum)
+ */
+export type EnumStyle = "union" | "const";
+
+/**
+ * OpenAPI format별 TypeScript 타입 매핑
+ * - 문자열: 타입 (예: "Date", "bigint", "string")
+ * - 객체: import할 모듈의 타입 (브랜드 타입 등)과 응답/요청 변환 함수
+ *
+ * Date/bigint/number/string 타입은 응답을 내장 reviver로, 요청을 내장 serializer로 변환
+ * (JSON 값과 타입이 같으면 변환하지 않음)
+ */
+export type FormatMapping =
+  | string
+  | {
+      /** 타입 이름 (import가 있으면 해당 모듈에서 export된 이름) */
+      type: string;
+      /** 타입(과 revive/serialize 함수)을 import할 모듈 (예: "@/types/ids") */
+      import?: string;
+      /** 응답 값을 변환할 함수 이름 (import 모듈에서 export, (value: unknown) => unknown) */
+      revive?: string;
+      /** 요청 값을 JSON 값으로 되돌릴 함수 이름 (import 모듈에서 export, (value: unknown) => unknown) */
+      serialize?: string;
+    };
+
+/**
+ * 생성 코드가 사용할 HTTP 클라이언트
+ * - axios: axios 인스턴스를 setHttpClient로 주입 (기본값)
+ * - fetch: 네이티브 fetch 기반 클라이언트 (axios 의존성 없음)
+ */
+export type HttpClientType = "axios" | "fetch";
+
 export interface GenerateConfig {
   queryHook?: boolean;
   mutationHook?: boolean;
   suspenseHook?: boolean;
   infiniteQueryHook?: boolean;
+  models?: ModelsMode;
+  enums?: EnumStyle;
+  /**
+   * format별 타입 매핑 (예: { "date-time": "Date", "int64": "bigint" })
+   * 생략된 format은 기본 타입 (date-time => string, int64 => number)
+   */
+  formats?: Record<string, FormatMapping>;
+  /**
+   * zod 스키마 생성 여부 (엔드포인트 파일의 BodySchema/ResponseSchema, 모델의 {Name}Schema)
+   * 생성 코드가 zod(v3)를 import하므로 프로젝트에 zod 설치 필요
+   * @default false
+   */
+  zod?: boolean;
+  /**
+   * Repository 함수에서 응답을 zod 스키마로 검증 (zod 스키마 생성 포함)
+   * 실패 처리 방식은 생성 코드의 setResponseValidation으로 스펙별 설정
+   * @default false
+   */
+  validateResponses?: boolean;
 }
 
 export interface OprqConfig {
   $schema?: string;
   outputPath?: string;
-  httpClient?: string;
+  httpClient?: HttpClientType;
   reactQueryVersion?: ReactQueryVersion;
   reactQuery?: {
     version?: ReactQueryVersion;
@@ -32,7 +103,7 @@ export interface OprqConfig {
   specs?: Record<string, SpecConfig>;
   /**
    * API URL에 스펙 접두사 유지 여부
-   * true: "PETSTORE:/pet/{petId}" 형태 유지 (인터셉터에서 baseURL 라우팅 시 사용)
+   * true: "PETSTORE:/pet/{petId}" 형태 유지 (baseUrl 없는 스펙을 인터셉터에서 라우팅 시 사용)
    * false: "/pet/{petId}" 형태로 접두사 제거 (단일 baseURL 사용 시)
    * @default true
    */
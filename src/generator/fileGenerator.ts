@@ -1,16 +1,50 @@
 import fs from "fs/promises";
 import path from "path";
 import type {
+  EncodingObject,
+  MediaTypeObject,
   OpenApiSpec,
   OperationObject,
+  ParameterObject,
+  PathItemObject,
+  SchemaAccess,
   SchemaObject,
+  SecurityRequirementObject,
+  TypeStringOptions,
 } from "../parser/openapi.js";
 import {
   schemaToTypeString,
-  extractAllSchemaNames,
-  generateTypeDefinition,
+  generateReferencedTypeDefinitions,
+  generateReferencedDefinitions,
+  getReferenceTypeName,
+  generateDiscriminatorGuards,
+  generateEnumDefinition,
+  getSchemaName,
+  mergeParameters,
+  getOperationSecurity,
+  generateFormatImports,
+  getSchemaDocLines,
 } from "../parser/openapi.js";
+import { schemaToZodString, generateZodDefinition, getZodSchemaName } from "../parser/zod.js";
+import {
+  createRevivePlanContext,
+  schemaToRevivePlan,
+  schemaToInlineRevivePlan,
+  generateRevivePlanDefinitions,
+} from "../parser/revive.js";
+import type { HttpMethod } from "../constants/index.js";
 import type { SpecName } from "../config/specs.js";
+import type { EnumStyle, FormatMapping, ModelsMode } from "../config/loader.js";
+import {
+  escapeComment,
+  formatDocComment,
+  generateOperationId,
+  safePropertyKey,
+  toOperationName,
+  toSafeTypeName,
+  toStringLiteral,
+} from "../utils/formatting.js";
+import { MODELS_NAME } from "./modelGenerator.js";
 import type { ReactQueryConfig } from "../cli/prompts/selectReactQueryVersion.js";
 
 interface ApiInfo {
@@ -34,6 +68,16 @@ interface GenerateOptions {
   reactQueryConfig?: ReactQueryConfig;
   httpClientPath?: string;
   hookOptions?: HookOptions;
+  /** 컴포넌트 스키마 출력 방식 (split/single이면 공유 모델 파일에서 import) */
+  models?: ModelsMode;
+  /** enum 출력 방식 (const면 컴포넌트/파라미터 enum을 const 객체로 선언) */
+  enums?: EnumStyle;
+  /** format별 타입 매핑 (JSON 값과 다른 타입은 Repository 함수에서 응답을 변환) */
+  formats?: Record<string, FormatMapping>;
+  /** Body/Response zod 스키마 생성 여부 */
+  zod?: boolean;
+  /** Repository 함수에서 Response를 ResponseSchema로 검증 (zod 스키마 생성 포함) */
+  validateResponses?: boolean;
 }
 
 // 기본 설정
@@ -46,6 +90,46 @@ const DEFAULT_REACT_QUERY_CONFIG: ReactQueryConfig = {
 
 const DEFAULT_HTTP_CLIENT_PATH = "@/lib/http";
 
+// OpenAPI 스펙상 header 파라미터로 정의되어도 무시해야 하는 헤더 (소문자)
+const IGNORED_HEADER_PARAMS = ["accept", "content-type", "authorization"];
+
+/**
+ * 엔드포인트 파일에서 이미 사용 중인 타입 이름
+ * 같은 이름의 컴포넌트 스키마는 Model 접미사를 붙여 참조 (예: ErrorResponse → ErrorResponseModel)
+ */
+const RESERVED_TYPE_NAMES: ReadonlySet<string> = new Set([
+  "PathParams",
+  "QueryParams",
+  "HeaderParams",
+  "CookieParams",
+  "Body",
+  "Response",
+  "BodySchema",
+  "ResponseSchema",
+  "ErrorResponse",
+  "ErrorMap",
+  "RequestError",
+  "RequestArgs",
+  "ApiErrorOf",
+  "BodyEncoding",
+  "RequestConfig",
+  "QueryParamStyles",
+  "PathParamStyles",
+  "SecurityRequirement",
+  "RevivePlan",
+  "StringReplacer",
+  "UseQueryOptions",
+  "UseQueryResult",
+  "UseSuspenseQueryResult",
+  "UseMutationOptions",
+  "UseMutationResult",
+  "UseInfiniteQueryOptions",
+  "UseInfiniteQueryResult",
+  "InfiniteData",
+  "Blob",
+  "Record",
+]);
+
 const DEFAULT_HOOK_OPTIONS: HookOptions = {
   queryHook: true,
   mutationHook: true,
@@ -65,26 +149,39 @@ export async function generateApiFile(options: GenerateOptions): Promise<void> {
     reactQueryConfig,
     httpClientPath,
     hookOptions,
+    models,
+    enums,
+    formats,
+    zod,
+    validateResponses,
   } = options;
 
   // 작업 객체 가져오기
   const pathItem = openApiSpec.paths[api.path];
-  const operation = pathItem?.[api.method] as OperationObject | undefined;
+  const operation = pathItem?.[api.method as HttpMethod];
 
   if (!operation) {
     throw new Error(`Operation not found: ${api.method} ${api.path}`);
   }
 
   // 파일 내용 생성
+  // operationId 충돌은 호출 측에서 resolveOperationIds로 해결 (여기서는 유효한 식별자로만 정리)
   const content = generateFileContent({
     specName,
     method: api.method,
     path: api.path,
+    operationId: toOperationName(api.operationId) || generateOperationId(api.method, api.path),
+    pathItem,
     operation,
     openApiSpec,
     reactQueryConfig: reactQueryConfig || DEFAULT_REACT_QUERY_CONFIG,
     httpClientPath: httpClientPath || DEFAULT_HTTP_CLIENT_PATH,
     hookOptions: { ...DEFAULT_HOOK_OPTIONS, ...hookOptions },
+    models: models || "inline",
+    enums: enums || "union",
+    formats: formats ?? {},
+    zod: Boolean(zod || validateResponses),
+    validateResponses: validateResponses ?? false,
   });
 
   // 디렉토리 생성
@@ -99,11 +196,18 @@ interface GenerateContentOptions {
   specName: SpecName;
   method: string;
   path: string;
+  operationId: string;
+  pathItem: PathItemObject;
   operation: OperationObject;
   openApiSpec: OpenApiSpec;
   reactQueryConfig: ReactQueryConfig;
   httpClientPath: string;
   hookOptions: HookOptions;
+  models: ModelsMode;
+  enums: EnumStyle;
+  formats: Record<string, FormatMapping>;
+  zod: boolean;
+  validateResponses: boolean;
 }
 
 /**
@@ -114,65 +218,191 @@ function generateFileContent(options: GenerateContentOptions): string {
     specName,
     method,
     path: apiPath,
+    operationId,
+    pathItem,
     operation,
     openApiSpec,
     reactQueryConfig,
     httpClientPath,
     hookOptions,
+    models,
+    enums,
+    formats,
+    zod,
+    validateResponses,
   } = options;
 
-  const operationId =
-    operation.operationId || `${method}${apiPath.replace(/\//g, "_")}`;
   const pascalCaseId = toPascalCase(operationId);
 
-  // 파라미터 분석
-  const pathParams = (operation.parameters || []).filter(
-    (p) => p.in === "path"
-  );
-  const queryParams = (operation.parameters || []).filter(
-    (p) => p.in === "query"
+  // 파라미터 분석 (path 레벨 + operation 레벨 병합, operation 레벨 우선)
+  const parameters = mergeParameters(pathItem.parameters, operation.parameters);
+  const pathParams = parameters.filter((p) => p.in === "path");
+  const queryParams = parameters.filter((p) => p.in === "query");
+  // Accept, Content-Type, Authorization 헤더 파라미터는 무시 (OpenAPI 스펙 규칙)
+  const headerParams = parameters.filter(
+    (p) => p.in === "header" && !IGNORED_HEADER_PARAMS.includes(p.name.toLowerCase())
   );
+  const cookieParams = parameters.filter((p) => p.in === "cookie");
+  const hasHeaders = headerParams.length > 0 || cookieParams.length > 0;
 
   // 요청/응답 스키마 추출 (content-type에 관계없이 첫 번째 스키마 사용)
-  const requestSchema = getFirstSchema(operation.requestBody?.content);
+  const requestBody = getRequestBody(operation.requestBody?.content);
+  const requestSchema = requestBody.schema;
 
   // 성공 응답 추출 (2XX 패턴, 204 No Content 지원)
   const successResponseInfo = getSuccessResponse(operation.responses);
 
   // 에러 응답 추출 (4XX, 5XX 패턴 지원, 여러 에러 타입 union)
-  const errorSchemas = getErrorSchemas(operation.responses);
+  const errorResponses = getErrorResponses(operation.responses);
+
+  // 기본값(simple, explode: false)과 다른 path 파라미터 직렬화 방식
+  const pathStyles = formatPathStyles(pathParams);
+
+  // 기본값(form, explode)과 다른 query 파라미터 직렬화 방식
+  const queryStyles = formatQueryStyles(queryParams);
+
+  // 보안 요구사항 (operation.security > 스펙 전체 security, 없으면 인증 없는 엔드포인트)
+  const security = formatSecurity(getOperationSecurity(operation, openApiSpec));
+
+  // 컴포넌트 스키마는 이름으로 참조
+  // (공유 모델 사용 시 import, 인라인 모드에서는 파일 안에 선언)
+  const useModels = models !== "inline";
+  const typeOptions: TypeStringOptions = {
+    useSchemaNames: true,
+    referencedNames: new Set(),
+    reservedNames: RESERVED_TYPE_NAMES,
+    enums,
+    formats,
+    usedFormats: new Set(),
+  };
+  // Body는 readOnly 제외(write), Response/ErrorResponse는 writeOnly 제외(read)
+  const toType = (schema: SchemaObject | undefined, access?: SchemaAccess) =>
+    schemaToTypeString(schema, openApiSpec, 0, new Set(), { ...typeOptions, access });
+
+  // const enum 옵션: 파라미터의 인라인 enum은 {Name}Param const 객체로 선언
+  const paramEnums =
+    enums === "const" ? collectParamEnums(parameters, openApiSpec) : new Map<SchemaObject, ParamEnum>();
+  const paramEnumDefinitions = Array.from(paramEnums.values(), ({ definition }) => definition).join(
+    "\n\n"
+  );
+  const toParamType = (schema: SchemaObject | undefined) => {
+    const itemSchema =
+      schema?.type === "array" && typeof schema.items === "object" ? schema.items : undefined;
+    if (schema && paramEnums.has(schema)) return paramEnums.get(schema)!.name;
+    if (itemSchema && paramEnums.has(itemSchema)) return `${paramEnums.get(itemSchema)!.name}[]`;
+    return toType(schema);
+  };
 
   // 타입 문자열 생성
-  const pathParamsType = generatePathParamsType(pathParams);
-  const queryParamsType = generateQueryParamsType(queryParams, openApiSpec);
-  const bodyType = requestSchema
-    ? schemaToTypeString(requestSchema, openApiSpec)
-    : "undefined";
+  const pathParamsType = generatePathParamsType(pathParams, toParamType);
+  const queryParamsType = generateParamsType(queryParams, toParamType);
+  const headerParamsType = generateParamsType(headerParams, toParamType);
+  const cookieParamsType = generateParamsType(cookieParams, toParamType);
+  const bodyType = requestSchema ? toType(requestSchema, "write") : "undefined";
 
   // 204 No Content는 void
   const responseType = successResponseInfo.isNoContent
     ? "void"
     : successResponseInfo.schema
-    ? schemaToTypeString(successResponseInfo.schema, openApiSpec)
+    ? toType(successResponseInfo.schema, "read")
     : "void";
 
+  // Response가 discriminated union이면 타입 가드 생성
+  // (공유 모델 사용 시에는 모델 파일에 생성되므로 인라인 모드에서만)
+  const responseGuards =
+    !useModels && !successResponseInfo.isNoContent && successResponseInfo.schema
+      ? generateDiscriminatorGuards("Response", successResponseInfo.schema, openApiSpec)
+      : "";
+
   // 여러 에러 타입을 union으로 합침
+  const errorSchemas = errorResponses.flatMap(({ schema }) => (schema ? [schema] : []));
   const errorType =
     errorSchemas.length > 0
       ? errorSchemas
-          .map((schema) => schemaToTypeString(schema, openApiSpec))
+          .map((schema) => toType(schema, "read"))
           .filter((type, index, arr) => arr.indexOf(type) === index) // 중복 제거
           .join(" | ")
       : "unknown";
 
+  // 상태 코드별 에러 본문 맵 (4XX/5XX/default는 문자열 키, ApiError<number, ...>로 매핑)
+  const errorMapType =
+    errorResponses.length > 0
+      ? `{ ${errorResponses
+          .map(({ statusCode, schema }) => {
+            const key = /^\d+$/.test(statusCode) ? statusCode : JSON.stringify(statusCode);
+            return `${key}: ${schema ? toType(schema, "read") : "unknown"}`;
+          })
+          .join("; ")} }`
+      : "Record<never, never>";
+
   // 필수 여부 확인
   const hasRequiredPathParams = pathParams.length > 0;
   const hasRequiredQueryParams = queryParams.some((p) => p.required);
+  const hasRequiredHeaderParams = headerParams.some((p) => p.required);
+  const hasRequiredCookieParams = cookieParams.some((p) => p.required);
   const hasRequiredBody = operation.requestBody?.required ?? false;
 
-  // 사용된 스키마 수집 (별도 타입 정의용)
-  const usedSchemas = extractAllSchemaNames(operation, openApiSpec);
-  const schemaDefinitions = generateSchemaDefinitions(usedSchemas, openApiSpec);
+  // zod 스키마 (TS 타입과 같은 규칙으로 생성, 참조한 컴포넌트는 {Name}Schema로 선언/import)
+  const zodOptions: TypeStringOptions = { ...typeOptions, referencedNames: new Set() };
+  const bodyZod = requestSchema
+    ? schemaToZodString(requestSchema, openApiSpec, { ...zodOptions, access: "write" })
+    : "z.undefined()";
+  const responseZod =
+    !successResponseInfo.isNoContent && successResponseInfo.schema
+      ? schemaToZodString(successResponseInfo.schema, openApiSpec, { ...zodOptions, access: "read" })
+      : "z.void()";
+  // 응답 본문이 없으면 (void) 검증하지 않음
+  const validateResponse =
+    validateResponses && !successResponseInfo.isNoContent && !!successResponseInfo.schema;
+  const zodReferencedNames = zod ? Array.from(zodOptions.referencedNames!).sort() : [];
+  const zodDefinitions = useModels
+    ? ""
+    : generateReferencedDefinitions(
+        zodReferencedNames,
+        openApiSpec,
+        typeOptions,
+        generateZodDefinition
+      ).join("\n\n");
+
+  // 응답 revive plan (format 매핑 타입이 JSON 값과 다른 값만 변환, 참조한 컴포넌트는 {Name}Revive로 선언)
+  const reviveContext = createRevivePlanContext(formats);
+  const responseRevive = successResponseInfo.isNoContent
+    ? undefined
+    : schemaToRevivePlan(successResponseInfo.schema, openApiSpec, reviveContext);
+  const reviveDefinitions = responseRevive
+    ? generateRevivePlanDefinitions(openApiSpec, reviveContext).join("\n")
+    : "";
+
+  // 요청 serialize plan (args 전체에 대해 매핑 타입 값을 JSON 값으로 되돌림, 컴포넌트는 {Name}Serialize로 선언)
+  const serializeContext = createRevivePlanContext(formats, "request");
+  const toParamsSchema = (params: ParameterObject[]): SchemaObject => ({
+    type: "object",
+    properties: Object.fromEntries(params.flatMap((p) => (p.schema ? [[p.name, p.schema]] : []))),
+  });
+  const requestSerialize = schemaToInlineRevivePlan(
+    {
+      type: "object",
+      properties: {
+        pathParams: toParamsSchema(pathParams),
+        queryParams: toParamsSchema(queryParams),
+        headerParams: toParamsSchema(headerParams),
+        cookieParams: toParamsSchema(cookieParams),
+        // GET 요청은 본문을 보내지 않음
+        ...(requestSchema && method.toLowerCase() !== "get" ? { body: requestSchema } : {}),
+      },
+    },
+    openApiSpec,
+    serializeContext
+  );
+  const serializeDefinitions = requestSerialize
+    ? generateRevivePlanDefinitions(openApiSpec, serializeContext).join("\n")
+    : "";
+
+  // 참조된 컴포넌트 타입 정의 (공유 모델 사용 시 불필요)
+  const referencedNames = Array.from(typeOptions.referencedNames!).sort();
+  const schemaDefinitions = useModels
+    ? ""
+    : generateReferencedTypeDefinitions(referencedNames, openApiSpec, typeOptions).join("\n\n");
 
   const now = new Date().toISOString();
 
@@ -180,7 +410,7 @@ function generateFileContent(options: GenerateContentOptions): string {
   const argsType = generateArgsType({
     hasRequiredPathParams,
     hasRequiredQueryParams,
-    hasRequiredBody,
+    hasRequiredBody: hasRequiredBody || hasRequiredHeaderParams || hasRequiredCookieParams,
   });
 
   // React Query import 생성 (hookOptions에 따라 필요한 import만)
@@ -189,28 +419,87 @@ function generateFileContent(options: GenerateContentOptions): string {
     hookOptions
   );
 
+  // __oprq__ import 목록 (header/cookie 파라미터, form 본문 직렬화는 필요할 때만)
+  const utilImports = [
+    "StringReplacer",
+    "getHttpClient",
+    "generateQueryKey",
+    hasHeaders && "buildRequestHeaders",
+    requestBody.format && FORM_SERIALIZERS[requestBody.format],
+    "type RequestConfig",
+    requestBody.encoding && "type BodyEncoding",
+    pathStyles && "type PathParamStyles",
+    queryStyles && "type QueryParamStyles",
+    security && "type SecurityRequirement",
+    validateResponse && "validateResponse",
+    responseRevive && "reviveResponse",
+    requestSerialize && "serializeRequest",
+    ...Array.from(
+      new Set([...reviveContext.builtinRevivers, ...serializeContext.builtinRevivers])
+    ).sort(),
+    (responseRevive || requestSerialize) && "type RevivePlan",
+    "type ApiErrorOf",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
   // __oprq__ 경로 계산 (폴더 깊이에 따라 동적으로)
   // 구조: {specName}/{method}/...path.../file.ts → __oprq__는 specName과 같은 레벨
   const pathDepth = apiPath.split("/").filter(Boolean).length; // path segments
   const totalDepth = 1 + pathDepth; // method 폴더 + path 폴더들
   const utilsRelativePath = "../".repeat(totalDepth) + "__oprq__";
+  // 공유 모델: {specName}/models (method 폴더 + path 폴더들 위)
+  const modelsRelativePath = "../".repeat(totalDepth - 1) + MODELS_NAME;
+  const modelsImport =
+    useModels && referencedNames.length > 0
+      ? `import type { ${referencedNames
+          .map((name) => {
+            const localName = getReferenceTypeName(name, typeOptions);
+            return localName === name ? name : `${name} as ${localName}`;
+          })
+          .join(", ")} } from "${modelsRelativePath}";\n`
+      : "";
+  const modelSchemasImport =
+    useModels && zodReferencedNames.length > 0
+      ? `import { ${zodReferencedNames
+          .map((name) => {
+            const localName = getZodSchemaName(getReferenceTypeName(name, typeOptions), openApiSpec);
+            const schemaName = getZodSchemaName(name, openApiSpec);
+            return localName === schemaName ? schemaName : `${schemaName} as ${localName}`;
+          })
+          .join(", ")} } from "${modelsRelativePath}";\n`
+      : "";
+
+  // format 매핑의 사용자 타입/reviver/serializer import
+  const formatImports = generateFormatImports(
+    formats,
+    typeOptions.usedFormats!,
+    reviveContext.customFormats,
+    serializeContext.customFormats
+  )
+    .map((line) => `${line}\n`)
+    .join("");
+
+  // operation 문서 주석 (Repository 함수, hook 공통)
+  const operationDoc = generateOperationDoc(operation);
 
   // Hook 코드 생성
   const queryHookCode = hookOptions.queryHook
-    ? generateQueryHook(pascalCaseId, operationId, argsType)
+    ? generateQueryHook(pascalCaseId, operationId, argsType, operationDoc)
     : "";
   const suspenseHookCode = hookOptions.suspenseHook
-    ? generateSuspenseHook(pascalCaseId, operationId, argsType)
+    ? generateSuspenseHook(pascalCaseId, operationId, argsType, operationDoc)
     : "";
   const mutationHookCode = hookOptions.mutationHook
-    ? generateMutationHook(pascalCaseId, operationId)
+    ? generateMutationHook(pascalCaseId, operationId, operationDoc)
     : "";
   const infiniteQueryHookCode = hookOptions.infiniteQueryHook
     ? generateInfiniteQueryHook(
         pascalCaseId,
         operationId,
         argsType,
-        reactQueryConfig.version
+        reactQueryConfig.version,
+        operationDoc
       )
     : "";
 
@@ -225,49 +514,121 @@ function generateFileContent(options: GenerateContentOptions): string {
     .join("\n");
 
   return `/**
- * ${method.toUpperCase()} ${apiPath}
- * ${operation.summary || "Auto-generated API file"}
+ * ${method.toUpperCase()} ${escapeComment(apiPath)}
+ * ${escapeComment(operation.summary || "Auto-generated API file")}
  * Generated at: ${now}
  * Source: ${specName}
  */
-${reactQueryImport}
-import { StringReplacer, getHttpClient, request, generateQueryKey, type RequestConfig } from "${utilsRelativePath}";
-
+${reactQueryImport}${zod ? `\nimport { z } from "zod";` : ""}
+import { ${utilImports} } from "${utilsRelativePath}";
+${formatImports}${modelsImport}${modelSchemasImport}
 // ===== Types =====
-${schemaDefinitions ? `// Referenced Types\n${schemaDefinitions}\n` : ""}
+${schemaDefinitions ? `// Referenced Types\n${schemaDefinitions}\n` : ""}${
+  paramEnumDefinitions
+    ? `${schemaDefinitions ? "\n" : ""}// Parameter Enums\n${paramEnumDefinitions}\n`
+    : ""
+}
 export type PathParams = ${pathParamsType};
 
 export type QueryParams = ${queryParamsType};
 
 export type Body = ${bodyType};
-
+${
+  hasHeaders
+    ? `
+export type HeaderParams = ${headerParamsType};
+
+export type CookieParams = ${cookieParamsType};
+`
+    : ""
+}
 export type Response = ${responseType};
-
+${responseGuards ? `\n${responseGuards}\n` : ""}
 export type ErrorResponse = ${errorType};
 
+export type ErrorMap = ${errorMapType};
+
+export type RequestError = ApiErrorOf<ErrorMap>;
+
 export interface RequestArgs {
   pathParams${hasRequiredPathParams ? "" : "?"}: PathParams;
   queryParams${hasRequiredQueryParams ? "" : "?"}: QueryParams;
-  body${hasRequiredBody ? "" : "?"}: Body;
+  body${hasRequiredBody ? "" : "?"}: Body;${
+  hasHeaders
+    ? `
+  headerParams${hasRequiredHeaderParams ? "" : "?"}: HeaderParams;
+  cookieParams${hasRequiredCookieParams ? "" : "?"}: CookieParams;`
+    : ""
+}
+  /** Cancels the request (React Query hooks pass their AbortSignal automatically) */
+  signal?: AbortSignal;
   config?: RequestConfig;
 }
-
+${
+  zod
+    ? `
+// ===== Zod Schemas =====
+${zodDefinitions ? `// Referenced Schemas\n${zodDefinitions}\n\n` : ""}export const BodySchema: z.ZodType<Body> = ${bodyZod};
+
+export const ResponseSchema: z.ZodType<Response> = ${responseZod};
+`
+    : ""
+}
 // ===== API URL =====
-const API_URL = "${specName}:${apiPath}" as const;
-
+const API_URL = ${toStringLiteral(`${specName}:${apiPath}`)} as const;
+${pathStyles ? `\nconst PATH_STYLES: PathParamStyles = ${pathStyles};\n` : ""}${queryStyles ? `\nconst QUERY_STYLES: QueryParamStyles = ${queryStyles};\n` : ""}${requestBody.encoding ? `\nconst BODY_ENCODING: BodyEncoding = ${requestBody.encoding};\n` : ""}${
+  security
+    ? `
+/** Security requirements (credentials from setAuthProvider are applied for one of them) */
+const SECURITY: SecurityRequirement[] = ${security};
+`
+    : ""
+}${
+  responseRevive
+    ? `
+/** Converts response values to the types mapped in generate.formats */
+const RESPONSE_REVIVE: RevivePlan = ${responseRevive};
+${reviveDefinitions ? `${reviveDefinitions}\n` : ""}`
+    : ""
+}${
+  requestSerialize
+    ? `
+/** Converts request values of the types mapped in generate.formats back to JSON values */
+const REQUEST_SERIALIZE: RevivePlan = ${requestSerialize};
+${serializeDefinitions ? `${serializeDefinitions}\n` : ""}`
+    : ""
+}
 // ===== Query Keys =====
 export const ${operationId}QueryKey = (req: RequestArgs) =>
   generateQueryKey<typeof API_URL, PathParams, QueryParams, Body>(API_URL, {
     method: "${method.toUpperCase()}",
     path: req.pathParams,
     param: req.queryParams,
-    body: req.body,
+    body: req.body,${
+  hasHeaders
+    ? `
+    header: req.headerParams,
+    cookie: req.cookieParams,`
+    : ""
+}
   });
 
 // ===== Repository =====
-export const ${operationId} = async (args: RequestArgs${argsType}): Promise<Response> => {
-  const url = new StringReplacer(API_URL).replaceText(args?.pathParams ?? {});
-${generateHttpCall(method)}
+${operationDoc}export const ${operationId} = async (args: RequestArgs${argsType}): Promise<Response> => {
+${
+  requestSerialize ? "  const request = serializeRequest(args, REQUEST_SERIALIZE);\n" : ""
+}  const url = new StringReplacer(API_URL).replaceText(${
+  requestSerialize ? "request" : "args"
+}?.pathParams ?? {}${pathStyles ? ", PATH_STYLES" : ""});
+${generateHttpCall(specName, method, {
+  hasHeaders,
+  hasQueryStyles: Boolean(queryStyles),
+  hasSecurity: Boolean(security),
+  requestBody,
+  validatedEndpoint: validateResponse ? `${method.toUpperCase()} ${apiPath}` : undefined,
+  revive: Boolean(responseRevive),
+  serialize: Boolean(requestSerialize),
+})}
 };
 ${hooksSection}
 `;
@@ -326,17 +687,18 @@ function generateReactQueryImport(
 function generateQueryHook(
   pascalCaseId: string,
   operationId: string,
-  argsType: string
+  argsType: string,
+  doc: string
 ): string {
   return `
 // ===== React Query Hook =====
-export const use${pascalCaseId}Query = <TData = Response, TError = ErrorResponse>(
+${doc}export const use${pascalCaseId}Query = <TData = Response, TError = RequestError>(
   req: RequestArgs${argsType},
   options?: Omit<UseQueryOptions<Response, TError, TData>, "queryKey" | "queryFn">
 ): UseQueryResult<TData, TError> => {
   return useQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: () => ${operationId}(req),
+    queryFn: ({ signal }) => ${operationId}({ ...req, signal }),
     ...options,
   });
 };`;
@@ -348,17 +710,18 @@ export const use${pascalCaseId}Query = <TData = Response, TError = ErrorResponse
 function generateSuspenseHook(
   pascalCaseId: string,
   operationId: string,
-  argsType: string
+  argsType: string,
+  doc: string
 ): string {
   return `
 // ===== Suspense Query Hook =====
-export const use${pascalCaseId}SuspenseQuery = <TData = Response, TError = ErrorResponse>(
+${doc}export const use${pascalCaseId}SuspenseQuery = <TData = Response, TError = RequestError>(
   req: RequestArgs${argsType},
   options?: Omit<UseQueryOptions<Response, TError, TData>, "queryKey" | "queryFn">
 ): UseSuspenseQueryResult<TData, TError> => {
   return useSuspenseQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: () => ${operationId}(req),
+    queryFn: ({ signal }) => ${operationId}({ ...req, signal }),
     ...options,
   });
 };`;
@@ -369,16 +732,17 @@ export const use${pascalCaseId}SuspenseQuery = <TData = Response, TError = Error
  */
 function generateMutationHook(
   pascalCaseId: string,
-  operationId: string
+  operationId: string,
+  doc: string
 ): string {
   return `
 // ===== Mutation Hook =====
-export const use${pascalCaseId}Mutation = <TContext = unknown>(
+${doc}export const use${pascalCaseId}Mutation = <TContext = unknown>(
   options?: Omit<
-    UseMutationOptions<Response, ErrorResponse, RequestArgs, TContext>,
+    UseMutationOptions<Response, RequestError, RequestArgs, TContext>,
     "mutationFn"
   >
-): UseMutationResult<Response, ErrorResponse, RequestArgs, TContext> => {
+): UseMutationResult<Response, RequestError, RequestArgs, TContext> => {
   return useMutation({
     mutationFn: ${operationId},
     ...options,
@@ -393,25 +757,27 @@ function generateInfiniteQueryHook(
   pascalCaseId: string,
   operationId: string,
   argsType: string,
-  version: "v3" | "v4" | "v5"
+  version: "v3" | "v4" | "v5",
+  doc: string
 ): string {
   // v5: 6개 타입 인자 (TPageParam 포함)
   // v3, v4: 5개 타입 인자
   if (version === "v5") {
     return `
 // ===== Infinite Query Hook =====
-export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
+${doc}export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
   req: RequestArgs${argsType},
   options: Omit<
-    UseInfiniteQueryOptions<Response, ErrorResponse, InfiniteData<Response>, Response, ReturnType<typeof ${operationId}QueryKey>, TPageParam>,
+    UseInfiniteQueryOptions<Response, RequestError, InfiniteData<Response>, Response, ReturnType<typeof ${operationId}QueryKey>, TPageParam>,
     "queryKey" | "queryFn"
   >
-): UseInfiniteQueryResult<InfiniteData<Response>, ErrorResponse> => {
+): UseInfiniteQueryResult<InfiniteData<Response>, RequestError> => {
   return useInfiniteQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: ({ pageParam }) => ${operationId}({
+    queryFn: ({ pageParam, signal }) => ${operationId}({
       ...req,
       queryParams: { ...req.queryParams, ...(pageParam as Record<string, unknown>) },
+      signal,
     } as RequestArgs),
     ...options,
   });
@@ -421,52 +787,34 @@ export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
   // v3, v4: 5개 타입 인자
   return `
 // ===== Infinite Query Hook =====
-export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
+${doc}export const use${pascalCaseId}InfiniteQuery = <TPageParam = unknown>(
   req: RequestArgs${argsType},
   options: Omit<
-    UseInfiniteQueryOptions<Response, ErrorResponse, InfiniteData<Response>, Response, ReturnType<typeof ${operationId}QueryKey>>,
+    UseInfiniteQueryOptions<Response, RequestError, InfiniteData<Response>, Response, ReturnType<typeof ${operationId}QueryKey>>,
     "queryKey" | "queryFn"
   > & {
     getNextPageParam: (lastPage: Response, allPages: Response[]) => TPageParam | undefined;
   }
-): UseInfiniteQueryResult<InfiniteData<Response>, ErrorResponse> => {
+): UseInfiniteQueryResult<InfiniteData<Response>, RequestError> => {
   return useInfiniteQuery({
     queryKey: ${operationId}QueryKey(req),
-    queryFn: ({ pageParam }) => ${operationId}({
+    queryFn: ({ pageParam, signal }) => ${operationId}({
       ...req,
       queryParams: { ...req.queryParams, ...(pageParam as Record<string, unknown>) },
+      signal,
     } as RequestArgs),
     ...options,
   });
 };`;
 }
 
-/**
- * 참조된 스키마들의 타입 정의 생성
- */
-function generateSchemaDefinitions(
-  schemaNames: Set<string>,
-  spec: OpenApiSpec
-): string {
-  if (schemaNames.size === 0) return "";
-
-  const definitions: string[] = [];
-
-  schemaNames.forEach((name) => {
-    const schema = spec.components?.schemas?.[name];
-    if (schema) {
-      definitions.push(generateTypeDefinition(name, schema, spec));
-    }
-  });
-
-  return definitions.join("\n\n");
-}
-
 /**
  * Path Params 타입 생성
+ * 배열/객체 스키마는 label/matrix 등 style로 직렬화되므로 스키마 타입 그대로 사용 (enum도 스키마 타입)
  */
 function generatePathParamsType(
-  params: Array<{ name: string; required?: boolean; schema?: SchemaObject }>
+  params: ParameterObject[],
+  toType: (schema: SchemaObject | undefined) => string
 ): string {
   if (params.length === 0) {
     return "Record<string, never>";
@@ -475,22 +823,70 @@ function generatePathParamsType(
   const props = params
     .map((p) => {
       let type = "string";
-      if (p.schema?.type === "integer" || p.schema?.type === "number") {
+      // format이 있으면 매핑 타입 사용 (예: int64 → bigint)
+      if (
+        p.schema?.type === "array" ||
+        p.schema?.type === "object" ||
+        p.schema?.enum ||
+        p.schema?.format
+      ) {
+        type = toType(p.schema);
+      } else if (p.schema?.type === "integer" || p.schema?.type === "number") {
         type = "number";
       }
-      return `${p.name}: ${type}`;
+      return `${formatParamDoc(p)}${safePropertyKey(p.name)}: ${type}`;
     })
     .join("; ");
 
   return `{ ${props} }`;
 }
 
+interface ParamEnum {
+  name: string;
+  definition: string;
+}
+
 /**
- * Query Params 타입 생성
+ * 파라미터의 인라인 enum (배열 아이템 포함)을 const 객체 선언으로 수집
+ * 컴포넌트 enum은 타입 이름으로 참조되므로 제외
+ * @example status 파라미터 => StatusParam, StatusParamValues
  */
-function generateQueryParamsType(
-  params: Array<{ name: string; required?: boolean; schema?: SchemaObject }>,
+function collectParamEnums(
+  parameters: ParameterObject[],
   spec: OpenApiSpec
+): Map<SchemaObject, ParamEnum> {
+  const paramEnums = new Map<SchemaObject, ParamEnum>();
+  const usedNames = new Set<string>();
+
+  for (const param of parameters) {
+    const schema =
+      param.schema?.type === "array" && typeof param.schema.items === "object"
+        ? param.schema.items
+        : param.schema;
+    if (!schema?.enum || paramEnums.has(schema) || getSchemaName(schema, spec)) continue;
+
+    const baseName = `${toSafeTypeName(toPascalCase(param.name))}Param`;
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+
+    const definition = generateEnumDefinition(name, schema, spec);
+    if (!definition) continue;
+    usedNames.add(name);
+    paramEnums.set(schema, { name, definition });
+  }
+
+  return paramEnums;
+}
+
+/**
+ * Query/Header/Cookie Params 타입 생성
+ * 헤더 이름(X-Tenant-Id 등)처럼 식별자가 아닌 키는 따옴표로 감싸기
+ */
+function generateParamsType(
+  params: ParameterObject[],
+  toType: (schema: SchemaObject | undefined) => string
 ): string {
   if (params.length === 0) {
     return "Record<string, never>";
@@ -499,14 +895,47 @@ function generateQueryParamsType(
   const props = params
     .map((p) => {
       const optional = p.required ? "" : "?";
-      const type = schemaToTypeString(p.schema, spec);
-      return `${p.name}${optional}: ${type}`;
+      const type = toType(p.schema);
+      return `${formatParamDoc(p)}${safePropertyKey(p.name)}${optional}: ${type}`;
     })
     .join("; ");
 
   return `{ ${props} }`;
 }
 
+/**
+ * 파라미터 JSDoc (파라미터의 description/example/deprecated 우선, 없으면 스키마 값)
+ */
+function formatParamDoc(param: ParameterObject): string {
+  const doc = formatDocComment(
+    getSchemaDocLines({
+      ...param.schema,
+      description: param.description ?? param.schema?.description,
+      examples: param.example !== undefined ? [param.example] : param.schema?.examples,
+      deprecated: param.deprecated || param.schema?.deprecated,
+    }),
+    "",
+    true
+  );
+  return doc ? `${doc} ` : "";
+}
+
+/**
+ * operation JSDoc (summary, description, tags, deprecated)
+ * Repository 함수와 모든 hook에 같은 주석을 붙여 IDE에서 API 문서 확인
+ */
+function generateOperationDoc(operation: OperationObject): string {
+  const { summary, description, tags, deprecated } = operation;
+  const lines = [
+    ...(summary ? [summary] : []),
+    ...(description && description !== summary ? [...(summary ? [""] : []), description] : []),
+    ...(tags && tags.length > 0 ? [`@tags ${tags.join(", ")}`] : []),
+    ...(deprecated ? ["@deprecated"] : []),
+  ];
+  const doc = formatDocComment(lines);
+  return doc ? `${doc}\n` : "";
+}
+
 /**
  * 요청 args 기본값 타입 생성
  */
@@ -526,26 +955,63 @@ function generateArgsType(options: {
 }
 
 /**
- * HTTP 호출 코드 생성 (axios 전용)
- * request()로 감싸서 onResponse/onError 핸들러 적용
- * args.config를 통해 headers, responseType 등 axios 옵션 주입 가능
+ * HTTP 호출 코드 생성
+ * getHttpClient(specName)으로 스펙별 클라이언트를 조회해 request() 호출
+ * (스펙 baseUrl 라우팅과 onResponse/onError 핸들러는 __oprq__/httpClient에서 적용)
+ * args.config를 통해 headers, responseType 등 클라이언트 옵션 주입 가능 (어댑터가 config.headers 우선 병합)
+ * args.signal(React Query의 AbortSignal)을 전달해 요청 취소 지원
+ * header/cookie 파라미터가 있으면 buildRequestHeaders()로 헤더 생성
+ * form 본문은 FormData/URLSearchParams로 직렬화하고 Content-Type 지정
+ * 보안 요구사항이 있으면 SECURITY를 전달해 인증 정보 적용 (없으면 인증 없이 요청)
+ * 기본값과 다른 query 직렬화 방식은 QUERY_STYLES로 전달 (어댑터가 paramsSerializer로 직렬화)
+ * 응답은 RESPONSE_REVIVE로 변환한 뒤 ResponseSchema로 검증 (각 옵션이 켜진 경우)
+ * 요청 값은 REQUEST_SERIALIZE로 변환한 request를 사용 (serialize 옵션이 켜진 경우)
  */
-function generateHttpCall(method: string): string {
-  const lowerMethod = method.toLowerCase();
-
-  if (lowerMethod === "get") {
-    return `  const http = getHttpClient();
-  return request(http.get(url, { params: args?.queryParams, ...args?.config }));`;
-  }
-
-  if (lowerMethod === "delete") {
-    return `  const http = getHttpClient();
-  return request(http.delete(url, { params: args?.queryParams, data: args?.body, ...args?.config }));`;
+function generateHttpCall(
+  specName: SpecName,
+  method: string,
+  options: HttpCallOptions
+): string {
+  const { hasHeaders, hasQueryStyles, hasSecurity, requestBody, validatedEndpoint, revive, serialize } =
+    options;
+  const source = serialize ? "request" : "args";
+  const contentType = requestBody.format
+    ? `{ "Content-Type": "${FORM_CONTENT_TYPES[requestBody.format]}" }`
+    : undefined;
+  const headers = hasHeaders
+    ? `buildRequestHeaders(${source}?.headerParams, ${source}?.cookieParams${contentType ? `, ${contentType}` : ""})`
+    : contentType;
+  const body = requestBody.format
+    ? `${FORM_SERIALIZERS[requestBody.format]}(${source}?.body${requestBody.encoding ? ", BODY_ENCODING" : ""})`
+    : `${source}?.body`;
+
+  const fields = [
+    `method: "${method.toUpperCase()}"`,
+    "url",
+    `query: ${source}?.queryParams`,
+    hasQueryStyles && "queryStyles: QUERY_STYLES",
+    // GET 요청은 본문 없음
+    method.toLowerCase() !== "get" && `body: ${body}`,
+    headers && `headers: ${headers}`,
+    hasSecurity && "security: SECURITY",
+    "signal: args?.signal",
+    "config: args?.config",
+  ].filter(Boolean);
+
+  const request = `getHttpClient("${specName}").request<Response>({
+    ${fields.join(",\n    ")},
+  })`;
+
+  if (!validatedEndpoint && !revive) {
+    return `  return ${request};`;
   }
-
-  // post, put, patch
-  return `  const http = getHttpClient();
-  return request(http.${lowerMethod}(url, args?.body, { params: args?.queryParams, ...args?.config }));`;
+  // 변환 후 검증 (zod 스키마는 매핑 타입 기준)
+  const data = revive ? "reviveResponse(response, RESPONSE_REVIVE)" : "response";
+  const result = validatedEndpoint
+    ? `validateResponse("${specName}", ${JSON.stringify(validatedEndpoint)}, ResponseSchema, ${data})`
+    : data;
+  return `  const response = await ${request};
+  return ${result};`;
 }
 
 /**
@@ -576,6 +1042,154 @@ function getFirstSchema(
   return firstKey ? content[firstKey]?.schema : undefined;
 }
 
+/**
+ * 직렬화가 필요한 form 본문 형식
+ */
+type FormBodyFormat = "multipart" | "urlencoded";
+
+const FORM_CONTENT_TYPES: Record<FormBodyFormat, string> = {
+  multipart: "multipart/form-data",
+  urlencoded: "application/x-www-form-urlencoded",
+};
+
+const FORM_SERIALIZERS: Record<FormBodyFormat, string> = {
+  multipart: "toFormData",
+  urlencoded: "toUrlSearchParams",
+};
+
+/**
+ * query 파라미터에 사용할 수 있는 style (그 외 값은 form으로 처리)
+ */
+const SUPPORTED_QUERY_STYLES: ReadonlyArray<ParameterObject["style"]> = [
+  "form",
+  "spaceDelimited",
+  "pipeDelimited",
+  "deepObject",
+];
+
+interface HttpCallOptions {
+  hasHeaders: boolean;
+  /** QUERY_STYLES 상수 전달 여부 */
+  hasQueryStyles: boolean;
+  /** SECURITY 상수 전달 여부 */
+  hasSecurity: boolean;
+  requestBody: RequestBodyInfo;
+  /** 응답을 ResponseSchema로 검증할 때 에러 메시지에 쓰일 "METHOD /path" */
+  validatedEndpoint?: string;
+  /** 응답을 RESPONSE_REVIVE로 변환 (format 매핑 타입) */
+  revive?: boolean;
+  /** 요청 값을 REQUEST_SERIALIZE로 변환한 request 사용 (format 매핑 타입) */
+  serialize?: boolean;
+}
+
+interface RequestBodyInfo {
+  schema: SchemaObject | undefined;
+  /** 객체 본문을 FormData/URLSearchParams로 직렬화해야 하는 경우 */
+  format?: FormBodyFormat;
+  /** 스펙의 encoding 객체 리터럴 (BODY_ENCODING 상수로 생성) */
+  encoding?: string;
+}
+
+/**
+ * 요청 본문 스키마와 직렬화 형식 추출
+ * 우선순위: application/json > multipart/form-data > application/x-www-form-urlencoded > 나머지
+ */
+function getRequestBody(content?: Record<string, MediaTypeObject>): RequestBodyInfo {
+  if (!content) return { schema: undefined };
+
+  const mediaType =
+    ["application/json", "multipart/form-data", "application/x-www-form-urlencoded"].find(
+      (type) => content[type]?.schema
+    ) ?? Object.keys(content)[0];
+  const schema = mediaType ? content[mediaType]?.schema : undefined;
+
+  // 객체 스키마만 필드 단위로 직렬화 (바이너리 단일 본문 등은 그대로 전송)
+  const format: FormBodyFormat | undefined = mediaType?.startsWith("multipart/")
+    ? "multipart"
+    : mediaType === "application/x-www-form-urlencoded"
+    ? "urlencoded"
+    : undefined;
+  const isObjectSchema =
+    !!schema && (schema.type === "object" || !!schema.properties || !!schema.allOf);
+  if (!format || !isObjectSchema) return { schema };
+
+  return { schema, format, encoding: formatEncoding(content[mediaType]?.encoding) };
+}
+
+/**
+ * encoding 객체를 BodyEncoding 리터럴로 변환 (contentType, style, explode만 사용)
+ */
+function formatEncoding(encoding?: Record<string, EncodingObject>): string | undefined {
+  const entries = Object.entries(encoding ?? {})
+    .map(([name, { contentType, style, explode }]) => {
+      const fields = Object.entries({ contentType, style, explode })
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      return fields.length > 0 ? `${safePropertyKey(name)}: { ${fields.join(", ")} }` : "";
+    })
+    .filter(Boolean);
+
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : undefined;
+}
+
+/**
+ * query 파라미터의 style/explode/allowReserved를 QueryParamStyles 리터럴로 변환
+ * 기본값(style: form, explode: true, allowReserved: false)과 같으면 생략, 모두 기본값이면 undefined
+ */
+function formatQueryStyles(queryParams: ParameterObject[]): string | undefined {
+  const entries = queryParams
+    .map(({ name, style, explode, allowReserved }) => {
+      const queryStyle = style && SUPPORTED_QUERY_STYLES.includes(style) ? style : "form";
+      const fields = Object.entries({
+        style: queryStyle !== "form" ? queryStyle : undefined,
+        explode: explode !== undefined && explode !== (queryStyle === "form") ? explode : undefined,
+        allowReserved: allowReserved || undefined,
+      })
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      return fields.length > 0 ? `${safePropertyKey(name)}: { ${fields.join(", ")} }` : "";
+    })
+    .filter(Boolean);
+
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : undefined;
+}
+
+/**
+ * path 파라미터의 style/explode를 PathParamStyles 리터럴로 변환
+ * 기본값(style: simple, explode: false)과 같으면 생략, 모두 기본값이면 undefined
+ */
+function formatPathStyles(pathParams: ParameterObject[]): string | undefined {
+  const entries = pathParams
+    .map(({ name, style, explode }) => {
+      const fields = Object.entries({
+        style: style === "label" || style === "matrix" ? style : undefined,
+        explode: explode || undefined,
+      })
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      return fields.length > 0 ? `${safePropertyKey(name)}: { ${fields.join(", ")} }` : "";
+    })
+    .filter(Boolean);
+
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : undefined;
+}
+
+/**
+ * 보안 요구사항을 SecurityRequirement[] 리터럴로 변환 (없으면 undefined)
+ * 스킴이 없는 요구사항({})은 인증 선택 사항을 의미
+ */
+function formatSecurity(requirements: SecurityRequirementObject[]): string | undefined {
+  if (requirements.length === 0) return undefined;
+
+  const items = requirements.map((requirement) => {
+    const entries = Object.entries(requirement).map(
+      ([name, scopes]) => `${safePropertyKey(name)}: ${JSON.stringify(scopes ?? [])}`
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  });
+  return `[${items.join(", ")}]`;
+}
+
 interface ResponseInfo {
   schema: SchemaObject | undefined;
   statusCode: string;
@@ -640,11 +1254,16 @@ function getSuccessResponse(
   return { schema: undefined, statusCode: "200", isNoContent: false };
 }
 
+interface ErrorResponseInfo {
+  statusCode: string;
+  schema: SchemaObject | undefined;
+}
+
 /**
- * 에러 응답(4XX, 5XX) 추출 및 union 타입 생성
- * 여러 에러 타입이 있으면 union으로 합침
+ * 에러 응답(4XX, 5XX) 추출
+ * 개별 코드와 4XX/5XX 범위 모두 포함, 에러 코드가 없으면 default를 에러로 사용
  */
-function getErrorSchemas(
+function getErrorResponses(
   responses:
     | Record<
         string,
@@ -654,37 +1273,30 @@ function getErrorSchemas(
         }
       >
     | undefined
-): SchemaObject[] {
+): ErrorResponseInfo[] {
   if (!responses) return [];
 
-  const errorSchemas: SchemaObject[] = [];
-  const errorCodes: string[] = [];
+  const errorResponses: ErrorResponseInfo[] = [];
 
   // 모든 키 순회
   for (const code of Object.keys(responses)) {
-    // 4XX, 5XX 패턴
-    if (code === "4XX" || code === "5XX") {
-      const schema = getFirstSchema(responses[code].content);
-      if (schema) errorSchemas.push(schema);
-      continue;
-    }
-
-    // 개별 4xx, 5xx 코드
+    // 4XX, 5XX 패턴, 개별 4xx, 5xx 코드
     const numCode = parseInt(code, 10);
-    if (numCode >= 400 && numCode < 600) {
-      const schema = getFirstSchema(responses[code].content);
-      if (schema) {
-        errorSchemas.push(schema);
-        errorCodes.push(code);
-      }
+    if (code === "4XX" || code === "5XX" || (numCode >= 400 && numCode < 600)) {
+      errorResponses.push({
+        statusCode: code,
+        schema: getFirstSchema(responses[code].content),
+      });
     }
   }
 
   // default를 에러로 사용하는 경우
-  if (responses["default"] && errorSchemas.length === 0) {
-    const schema = getFirstSchema(responses["default"].content);
-    if (schema) errorSchemas.push(schema);
+  if (responses["default"] && errorResponses.length === 0) {
+    errorResponses.push({
+      statusCode: "default",
+      schema: getFirstSchema(responses["default"].content),
+    });
   }
 
-  return errorSchemas;
+  return errorResponses;
 }
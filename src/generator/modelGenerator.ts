@@ -0,0 +1,278 @@
+import path from "path";
+import type {
+  OpenApiSpec,
+  SchemaObject,
+  TypeStringOptions,
+} from "../parser/openapi.js";
+import {
+  generateTypeDefinition,
+  generateDiscriminatorGuards,
+  hasAccessVariants,
+  getSchemaTypeName,
+  generateFormatImports,
+} from "../parser/openapi.js";
+import { generateZodDefinition, getZodSchemaName } from "../parser/zod.js";
+import type { EnumStyle, FormatMapping, ModelsMode } from "../config/loader.js";
+import type { SpecName } from "../config/specs.js";
+import { removeFileSafe, removeStaleFiles, writeFileSafe } from "../utils/files.js";
+import { escapeComment, toSafeTypeName } from "../utils/formatting.js";
+
+/**
+ * 공유 모델 폴더/파일 이름 ({SPEC}/models/ 또는 {SPEC}/models.ts)
+ */
+export const MODELS_NAME = "models";
+
+/**
+ * zod 스키마를 생성하는 모델 파일의 import 문
+ */
+const ZOD_IMPORT = `import { z } from "zod";`;
+
+interface GenerateModelsOptions {
+  specName: SpecName;
+  /** 스펙 출력 경로 ({outputPath}/{SPEC}) */
+  specOutputPath: string;
+  openApiSpec: OpenApiSpec;
+  mode: Exclude<ModelsMode, "inline">;
+  /** enum 스키마 선언 방식 (const면 const 객체 + 타입 + 값 배열) */
+  enums?: EnumStyle;
+  /** format별 타입 매핑 (import가 지정된 타입은 모델 파일에서 import) */
+  formats?: Record<string, FormatMapping>;
+  /** 모델마다 zod 스키마({Name}Schema) 함께 생성 */
+  zod?: boolean;
+}
+
+/**
+ * components.schemas를 공유 모델 파일로 생성
+ * - split: {SPEC}/models/{Name}.ts + {SPEC}/models/index.ts
+ * - single: {SPEC}/models.ts
+ * 엔드포인트 파일은 두 경우 모두 "{SPEC}/models"에서 타입을 import
+ * zod 옵션이 켜져 있으면 타입 정의 뒤에 {Name}Schema 선언 추가
+ *
+ * @returns 생성된 파일 경로 목록
+ */
+export async function generateModelFiles(
+  options: GenerateModelsOptions
+): Promise<string[]> {
+  const { specName, specOutputPath, openApiSpec, mode, enums, formats, zod = false } = options;
+  const schemas = Object.entries(openApiSpec.components?.schemas ?? {});
+
+  if (mode === "single") {
+    const guardNames = new Set<string>();
+    const usedFormats = new Set<string>();
+    const definitions = schemas.flatMap(([name, schema]) => [
+      joinDefinition(
+        generateTypeDefinition(name, schema, openApiSpec, {
+          useSchemaNames: true,
+          enums,
+          formats,
+          usedFormats,
+        }),
+        generateDiscriminatorGuards(toSafeTypeName(name), schema, openApiSpec, guardNames),
+        zod ? generateZodDefinition(name, schema, openApiSpec, { useSchemaNames: true, formats }) : ""
+      ),
+      ...generateAccessVariants(name, schema, openApiSpec, zod, formats).map((variant) => {
+        variant.usedFormats.forEach((format) => usedFormats.add(format));
+        return variant.definition;
+      }),
+    ]);
+
+    const imports = formatImports(
+      openApiSpec,
+      new Set(),
+      "",
+      zod ? new Set() : undefined,
+      generateFormatImports(formats, usedFormats)
+    );
+    const filePath = path.join(specOutputPath, `${MODELS_NAME}.ts`);
+    await writeFileSafe(
+      filePath,
+      `${generateModelHeader(specName)}\n${imports ? `${imports}\n\n` : ""}${definitions.join("\n\n")}\n`
+    );
+    // split 모드에서 생성한 models/ 파일은 "./models" import와 겹치므로 삭제
+    await removeStaleFiles(path.join(specOutputPath, MODELS_NAME), []);
+    return [filePath];
+  }
+
+  const modelsPath = path.join(specOutputPath, MODELS_NAME);
+  const generatedFiles: string[] = [];
+  const typeNames: string[] = [];
+
+  // index.ts가 모든 파일을 re-export하므로 가드 이름은 파일 간에도 겹치면 안 됨
+  // 파일 작성 전에 스키마 순서대로 먼저 생성해 이름을 결정
+  const guardNames = new Set<string>();
+  const guards = new Map(
+    schemas.map(([name, schema]) => [
+      name,
+      generateDiscriminatorGuards(toSafeTypeName(name), schema, openApiSpec, guardNames),
+    ])
+  );
+
+  for (const [name, schema] of schemas) {
+    const typeName = toSafeTypeName(name);
+    const typeOptions: TypeStringOptions = {
+      useSchemaNames: true,
+      referencedNames: new Set(),
+      enums,
+      formats,
+      usedFormats: new Set(),
+    };
+    const zodOptions: TypeStringOptions = { useSchemaNames: true, referencedNames: new Set(), formats };
+    const definition = joinDefinition(
+      generateTypeDefinition(name, schema, openApiSpec, typeOptions),
+      guards.get(name) ?? "",
+      zod ? generateZodDefinition(name, schema, openApiSpec, zodOptions) : ""
+    );
+
+    // 다른 모델 참조는 개별 파일에서 import (자기 자신 제외)
+    const imports = formatImports(
+      openApiSpec,
+      typeOptions.referencedNames!,
+      typeName,
+      zod ? zodOptions.referencedNames! : undefined,
+      generateFormatImports(formats, typeOptions.usedFormats!)
+    );
+
+    const filePath = path.join(modelsPath, `${typeName}.ts`);
+    await writeFileSafe(
+      filePath,
+      `${generateModelHeader(specName, name)}\n${imports ? `${imports}\n\n` : ""}${definition}\n`
+    );
+    generatedFiles.push(filePath);
+    typeNames.push(typeName);
+
+    // readOnly/writeOnly 변형 타입은 별도 파일 (models/UserRead.ts, models/UserWrite.ts)
+    for (const variant of generateAccessVariants(name, schema, openApiSpec, zod, formats)) {
+      const variantImports = formatImports(
+        openApiSpec,
+        variant.referencedNames,
+        variant.typeName,
+        zod ? variant.zodReferencedNames : undefined,
+        generateFormatImports(formats, variant.usedFormats)
+      );
+      const variantPath = path.join(modelsPath, `${variant.typeName}.ts`);
+      await writeFileSafe(
+        variantPath,
+        `${generateModelHeader(specName, variant.typeName, name)}\n${variantImports ? `${variantImports}\n\n` : ""}${variant.definition}\n`
+      );
+      generatedFiles.push(variantPath);
+      typeNames.push(variant.typeName);
+    }
+  }
+
+  const indexContent = typeNames
+    .map((typeName) => `export * from "./${typeName}";`)
+    .join("\n");
+  const indexPath = path.join(modelsPath, "index.ts");
+  await writeFileSafe(indexPath, `${generateModelHeader(specName)}\n${indexContent}\n`);
+  generatedFiles.push(indexPath);
+
+  // 스펙에서 사라지거나 이름이 바뀐 스키마의 파일, single 모드의 models.ts 삭제
+  await removeStaleFiles(modelsPath, generatedFiles);
+  await removeFileSafe(path.join(specOutputPath, `${MODELS_NAME}.ts`));
+
+  return generatedFiles;
+}
+
+interface AccessVariant {
+  typeName: string;
+  definition: string;
+  referencedNames: Set<string>;
+  /** zod 스키마에서 참조한 타입 이름 ({Name}Schema import용) */
+  zodReferencedNames: Set<string>;
+  /** 매핑된 타입으로 변환한 format (import 문 생성용) */
+  usedFormats: Set<string>;
+}
+
+/**
+ * readOnly/writeOnly 프로퍼티가 있는 스키마의 요청/응답 변형 타입 생성
+ * - {Name}Read: 응답용 (writeOnly 프로퍼티 제외)
+ * - {Name}Write: 요청용 (readOnly 프로퍼티 제외)
+ */
+function generateAccessVariants(
+  name: string,
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  zod = false,
+  formats?: Record<string, FormatMapping>
+): AccessVariant[] {
+  if (!hasAccessVariants(schema)) return [];
+
+  return (["read", "write"] as const).map((access) => {
+    const typeName = getSchemaTypeName(name, spec, access);
+    const referencedNames = new Set<string>();
+    const zodReferencedNames = new Set<string>();
+    const usedFormats = new Set<string>();
+    const definition = joinDefinition(
+      generateTypeDefinition(typeName, schema, spec, {
+        useSchemaNames: true,
+        referencedNames,
+        access,
+        formats,
+        usedFormats,
+      }),
+      zod
+        ? generateZodDefinition(typeName, schema, spec, {
+            useSchemaNames: true,
+            referencedNames: zodReferencedNames,
+            access,
+            formats,
+          })
+        : ""
+    );
+    return { typeName, definition, referencedNames, zodReferencedNames, usedFormats };
+  });
+}
+
+/**
+ * 모델 파일 import 문 생성 (자기 자신 제외)
+ * zodReferencedNames가 있으면 zod import와 참조한 모델의 {Name}Schema도 import
+ * formatImportLines: format 매핑 타입 import 문 (generateFormatImports)
+ */
+function formatImports(
+  spec: OpenApiSpec,
+  referencedNames: Set<string>,
+  selfName: string,
+  zodReferencedNames?: Set<string>,
+  formatImportLines: string[] = []
+): string {
+  const modelImports = Array.from(new Set([...referencedNames, ...(zodReferencedNames ?? [])]))
+    .filter((refName) => refName !== selfName)
+    .sort()
+    .map((refName) =>
+      zodReferencedNames?.has(refName)
+        ? `import { type ${refName}, ${getZodSchemaName(refName, spec)} } from "./${refName}";`
+        : `import type { ${refName} } from "./${refName}";`
+    );
+
+  return [...(zodReferencedNames ? [ZOD_IMPORT] : []), ...formatImportLines, ...modelImports].join(
+    "\n"
+  );
+}
+
+/**
+ * 타입 정의 뒤에 타입 가드, zod 스키마 등 부가 코드 연결
+ */
+function joinDefinition(definition: string, ...extras: string[]): string {
+  return [definition, ...extras].filter(Boolean).join("\n\n");
+}
+
+/**
+ * 모델 파일 헤더 주석 생성
+ * @param baseSchemaName - readOnly/writeOnly 변형 파일이면 원본 스키마 이름
+ */
+function generateModelHeader(
+  specName: SpecName,
+  schemaName?: string,
+  baseSchemaName?: string
+): string {
+  const now = new Date().toISOString();
+  const model = schemaName
+    ? `Model: ${escapeComment(schemaName)}${baseSchemaName ? ` (variant of ${escapeComment(baseSchemaName)})` : ""}`
+    : "Shared models";
+
+  return `/**
+ * ${model}
+ * Generated at: ${now}
+ * Source: ${specName}
+ */`;
+}
@@ -0,0 +1,161 @@
+import path from "path";
+import type {
+  OpenApiSpec,
+  SecuritySchemeObject,
+  ServerObject,
+} from "../parser/openapi.js";
+import { getDefaultServerUrl } from "../parser/openapi.js";
+import type { SpecConfig } from "../config/loader.js";
+import type { SpecName } from "../config/specs.js";
+import { writeFileSafe } from "../utils/files.js";
+import { safePropertyKey, toSafeTypeName } from "../utils/formatting.js";
+import { SPEC_FILE_NAME } from "./templates.js";
+
+/**
+ * 서버 정의 파일 이름 ({SPEC}/servers.ts)
+ */
+export const SERVERS_FILE_NAME = "servers";
+
+interface GenerateSpecFileOptions {
+  specName: SpecName;
+  /** 스펙 출력 경로 ({outputPath}/{SPEC}) */
+  specOutputPath: string;
+  openApiSpec: OpenApiSpec;
+  specConfig: SpecConfig;
+}
+
+/**
+ * 스펙 정보 파일 생성 ({SPEC}/spec.ts, {SPEC}/servers.ts)
+ * __oprq__/specs.ts 레지스트리가 import 하여 스펙별 baseUrl 라우팅/서버 선택/인증 적용에 사용
+ * baseUrl: 설정 파일의 baseUrl (없으면 undefined)
+ * serverUrl: 스펙의 첫 번째 server URL (baseUrl도 클라이언트의 base URL도 없을 때만 사용)
+ *
+ * @returns 생성된 파일 경로 목록
+ */
+export async function generateSpecFile(
+  options: GenerateSpecFileOptions
+): Promise<string[]> {
+  const { specName, specOutputPath, openApiSpec, specConfig } = options;
+  const { baseUrl } = specConfig;
+  const serverUrl = getDefaultServerUrl(openApiSpec);
+  const serversPath = path.join(specOutputPath, `${SERVERS_FILE_NAME}.ts`);
+  await writeFileSafe(
+    serversPath,
+    `${generateSpecHeader(specName, "Servers")}
+export const servers = ${formatServers(openApiSpec.servers ?? [])} as const;
+
+export type ServerName = keyof typeof servers;
+`
+  );
+
+  const specPath = path.join(specOutputPath, `${SPEC_FILE_NAME}.ts`);
+  await writeFileSafe(
+    specPath,
+    `${generateSpecHeader(specName, "Spec info")}
+import { servers } from "./${SERVERS_FILE_NAME}";
+
+export const spec = {
+  name: ${JSON.stringify(specName)},
+  /** Base URL from oprq.config.json (override at runtime with configureSpec) */
+  baseUrl: ${baseUrl === undefined ? "undefined" : JSON.stringify(baseUrl)},
+  /** First server of the spec (used when neither the spec nor the HTTP client sets a base URL) */
+  serverUrl: ${serverUrl === undefined ? "undefined" : JSON.stringify(serverUrl)},
+  servers,
+  /** Security schemes used to apply setAuthProvider credentials */
+  securitySchemes: ${formatSecuritySchemes(openApiSpec.components?.securitySchemes ?? {})},
+} as const;
+`
+  );
+
+  return [serversPath, specPath];
+}
+
+/**
+ * 서버 이름 결정: description의 첫 단어 소문자 (예: "Staging server" → staging, 없으면 server1, server2...)
+ * 중복 시 순번 접미사 추가
+ */
+function getServerNames(servers: ServerObject[]): string[] {
+  const used = new Set<string>();
+
+  return servers.map((server, index) => {
+    const [word] = (server.description ?? "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const base = word ? toSafeTypeName(word) : `server${index + 1}`;
+
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * servers 배열을 이름 → { url, description, variables } 객체 리터럴로 변환
+ */
+function formatServers(servers: ServerObject[]): string {
+  if (servers.length === 0) return "{}";
+
+  const names = getServerNames(servers);
+  const entries = servers.map((server, index) => {
+    const lines = [`    url: ${JSON.stringify(server.url)},`];
+    if (server.description) {
+      lines.push(`    description: ${JSON.stringify(server.description)},`);
+    }
+    lines.push(`    variables: ${formatServerVariables(server)},`);
+    return `  ${safePropertyKey(names[index])}: {\n${lines.join("\n")}\n  },`;
+  });
+
+  return `{\n${entries.join("\n")}\n}`;
+}
+
+function formatServerVariables(server: ServerObject): string {
+  const variables = Object.entries(server.variables ?? {});
+  if (variables.length === 0) return "{}";
+
+  const entries = variables.map(([name, variable]) => {
+    const fields = [`default: ${JSON.stringify(String(variable.default))}`];
+    if (variable.enum?.length) {
+      fields.push(`enum: [${variable.enum.map((value) => JSON.stringify(String(value))).join(", ")}]`);
+    }
+    if (variable.description) {
+      fields.push(`description: ${JSON.stringify(variable.description)}`);
+    }
+    return `      ${safePropertyKey(name)}: { ${fields.join(", ")} },`;
+  });
+
+  return `{\n${entries.join("\n")}\n    }`;
+}
+
+/**
+ * securitySchemes를 인증 정보 적용에 필요한 필드(type, scheme, in, name)만 남긴 객체 리터럴로 변환
+ */
+function formatSecuritySchemes(schemes: Record<string, SecuritySchemeObject>): string {
+  const entries = Object.entries(schemes).map(([name, scheme]) => {
+    const fields = Object.entries({
+      type: scheme.type,
+      scheme: scheme.scheme?.toLowerCase(),
+      in: scheme.in,
+      name: scheme.name,
+    })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    return `    ${safePropertyKey(name)}: { ${fields.join(", ")} },`;
+  });
+
+  return entries.length > 0 ? `{\n${entries.join("\n")}\n  }` : "{}";
+}
+
+/**
+ * 스펙 정보 파일 헤더 주석 생성
+ */
+function generateSpecHeader(specName: SpecName, title: string): string {
+  return `/**
+ * ${title}
+ * Generated at: ${new Date().toISOString()}
+ * Source: ${specName}
+ */`;
+}
@@ -1,9 +1,23 @@
+import { createHash } from "crypto";
 import fs from "fs/promises";
 import path from "path";
-import { ensureDirectory } from "../utils/files.js";
+import { ensureDirectory, fileExists, removeFileSafe } from "../utils/files.js";
+import { safePropertyKey, toSafeTypeName } from "../utils/formatting.js";
+import type { HttpClientType } from "../config/loader.js";
 
 const OPRQ_FOLDER = "__oprq__";
 
+/**
+ * 유틸리티 파일 버전 파일 (__oprq__/.template-version)
+ * 생성한 유틸리티 파일 내용의 해시 - oprq 업그레이드나 옵션 변경으로 내용이 바뀌면 달라짐
+ */
+const TEMPLATE_VERSION_FILE = ".template-version";
+
+/**
+ * 스펙 정보 파일 이름 ({SPEC}/spec.ts)
+ */
+export const SPEC_FILE_NAME = "spec";
+
 /**
  * StringReplacer.ts 템플릿 (접두사 유지)
  */
@@ -21,17 +35,14 @@ export class StringReplacer {
 
   /**
    * 경로 파라미터 치환 (스펙 접두사 유지)
+   * 값은 인코딩되며, styles로 label/matrix 스타일 지정 가능
    * @example "PETSTORE:/pet/{petId}" + { petId: 1 } => "PETSTORE:/pet/1"
+   * @throws 값이 없는 경로 파라미터가 있으면 에러
    */
-  replaceText(params: Record<string, string | number | undefined>): string {
-    return this.template.replace(/\\{(\\w+)\\}/g, (match, key) => {
-      const value = params[key];
-      if (value === undefined || value === null) {
-        console.warn(\`StringReplacer: Missing value for placeholder "\${key}"\`);
-        return match;
-      }
-      return String(value);
-    });
+  replaceText(params: Record<string, unknown>, styles?: PathParamStyles): string {
+    return this.template.replace(/\\{([^}]+)\\}/g, (_, key: string) =>
+      serializePathParam(key, params[key], styles?.[key])
+    );
   }
 
   /**
@@ -45,11 +56,11 @@ export class StringReplacer {
    * URL에서 경로 파라미터 목록 추출
    */
   getPlaceholders(): string[] {
-    const matches = this.template.match(/\\{(\\w+)\\}/g);
+    const matches = this.template.match(/\\{([^}]+)\\}/g);
     return matches ? matches.map((m) => m.slice(1, -1)) : [];
   }
 }
-`;
+${getPathParamSerializerTemplate()}`;
 }
 
 /**
@@ -60,6 +71,8 @@ export function getStringReplacerTemplateWithoutPrefix(): string {
  * URL 경로 파라미터 치환 유틸리티
  * Generated by oprq
  */
+import { stripSpecPrefix } from "./specs";
+
 export class StringReplacer {
   private template: string;
 
@@ -69,23 +82,18 @@ export class StringReplacer {
 
   /**
    * 스펙 접두사 제거 및 경로 파라미터 치환
+   * 값은 인코딩되며, styles로 label/matrix 스타일 지정 가능
    * @example "PETSTORE:/pet/{petId}" + { petId: 1 } => "/pet/1"
+   * @throws 값이 없는 경로 파라미터가 있으면 에러
    */
-  replaceText(params: Record<string, string | number | undefined>): string {
+  replaceText(params: Record<string, unknown>, styles?: PathParamStyles): string {
     // 스펙 이름 접두사 제거 (예: "PETSTORE:/pet/{petId}" => "/pet/{petId}")
-    let result = this.template.replace(/^[A-Z][A-Z0-9_]*:/, "");
+    const result = stripSpecPrefix(this.template);
 
     // 경로 파라미터 치환
-    result = result.replace(/\\{(\\w+)\\}/g, (match, key) => {
-      const value = params[key];
-      if (value === undefined || value === null) {
-        console.warn(\`StringReplacer: Missing value for placeholder "\${key}"\`);
-        return match;
-      }
-      return String(value);
-    });
-
-    return result;
+    return result.replace(/\\{([^}]+)\\}/g, (_, key: string) =>
+      serializePathParam(key, params[key], styles?.[key])
+    );
   }
 
   /**
@@ -99,10 +107,74 @@ export class StringReplacer {
    * URL에서 경로 파라미터 목록 추출
    */
   getPlaceholders(): string[] {
-    const matches = this.template.match(/\\{(\\w+)\\}/g);
+    const matches = this.template.match(/\\{([^}]+)\\}/g);
     return matches ? matches.map((m) => m.slice(1, -1)) : [];
   }
 }
+${getPathParamSerializerTemplate()}`;
+}
+
+/**
+ * 경로 파라미터 직렬화 (인코딩, label/matrix 스타일) - StringReplacer 템플릿에서 공유
+ */
+function getPathParamSerializerTemplate(): string {
+  return `
+/**
+ * 기본값(style: simple, explode: false)과 다른 경로 파라미터 직렬화 방식
+ */
+export type PathParamStyles = Record<
+  string,
+  { style?: "simple" | "label" | "matrix"; explode?: boolean }
+>;
+
+/**
+ * 경로 파라미터 값을 style/explode에 따라 직렬화 (값은 encodeURIComponent로 인코딩)
+ * - simple: 5, 3,4,5, role,admin (explode: role=admin)
+ * - label: .5, .3,4,5 (explode: .3.4.5)
+ * - matrix: ;id=5, ;id=3,4,5 (explode: ;id=3;id=4;id=5)
+ * @throws 값이 없으면 에러 (경로 파라미터는 항상 필수)
+ */
+export function serializePathParam(
+  name: string,
+  value: unknown,
+  options: PathParamStyles[string] = {}
+): string {
+  if (value === undefined || value === null) {
+    throw new Error(\`Missing value for path parameter "\${name}"\`);
+  }
+
+  const { style = "simple", explode = false } = options;
+  const prefix = style === "label" ? "." : style === "matrix" ? ";" : "";
+  const matrixName = \`;\${encodeURIComponent(name)}=\`;
+
+  if (Array.isArray(value)) {
+    const items = value.map(encodePathValue);
+    if (style === "matrix") {
+      return explode
+        ? items.map((item) => \`\${matrixName}\${item}\`).join("")
+        : \`\${matrixName}\${items.join(",")}\`;
+    }
+    return prefix + items.join(explode && style === "label" ? "." : ",");
+  }
+
+  if (typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .map(([key, v]) => [encodeURIComponent(key), encodePathValue(v)]);
+    if (explode) {
+      return prefix + entries.map(([key, v]) => \`\${key}=\${v}\`).join(prefix || ",");
+    }
+    const joined = entries.flat().join(",");
+    return style === "matrix" ? \`\${matrixName}\${joined}\` : prefix + joined;
+  }
+
+  const encoded = encodePathValue(value);
+  return style === "matrix" ? \`\${matrixName}\${encoded}\` : prefix + encoded;
+}
+
+function encodePathValue(value: unknown): string {
+  return encodeURIComponent(value instanceof Date ? value.toISOString() : String(value));
+}
 `;
 }
 
@@ -116,13 +188,26 @@ export function getStringReplacerTemplate(keepSpecPrefix: boolean = true): strin
 }
 
 /**
- * httpClient.ts 템플릿
+ * httpClient.ts 템플릿 (옵션에 따라 선택)
+ */
+export function getHttpClientTemplate(httpClient: HttpClientType = "axios"): string {
+  return httpClient === "fetch"
+    ? getFetchHttpClientTemplate()
+    : getAxiosHttpClientTemplate();
+}
+
+/**
+ * httpClient.ts 템플릿 (axios)
  */
-export function getHttpClientTemplate(): string {
+export function getAxiosHttpClientTemplate(): string {
   return `/**
- * HTTP Client Bootstrap (axios only)
+ * HTTP Client Bootstrap (axios)
  * Generated by oprq
  *
+ * Generated API code sends every request through an HttpAdapter.
+ * Pass an axios instance (wrapped with the built-in axios adapter)
+ * or your own adapter to setHttpClient.
+ *
  * @example
  * // Basic setup
  * import axios from "axios";
@@ -132,6 +217,14 @@ export function getHttpClientTemplate(): string {
  * setHttpClient(instance);
  *
  * @example
+ * // Per-spec clients and base URLs
+ * // (a spec's base URL comes from configureSpec or oprq.config.json; without one, requests use
+ * // the client's base URL, or the spec's first server when the client has none)
+ * setHttpClient(instance);                     // default client for every spec
+ * setHttpClient("PAYMENTS", paymentsInstance); // PAYMENTS requests only
+ * configureSpec("PETSTORE", { baseUrl: "https://staging.petstore.example.com" });
+ *
+ * @example
  * // With response/error handlers (for custom http wrappers)
  * setHttpClient(customHttp.axiosInstance, {
  *   onResponse: (result) => {
@@ -140,23 +233,44 @@ export function getHttpClientTemplate(): string {
  *     return result;
  *   },
  *   onError: (error) => {
- *     // Transform error before rejecting
+ *     // Transform error before rejecting (replaces the default ApiError conversion)
  *     throw { code: error.response?.status, message: error.message };
  *   },
  * });
+ *
+ * @example
+ * // Custom adapter (ky, ofetch, in-house wrappers, ...)
+ * setHttpClient({
+ *   request: ({ method, url, query, body, headers, signal }) =>
+ *     tracedHttp.send({ method, url, query, body, headers, signal }),
+ * });
  */
-import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import {
+  isAxiosError,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+} from "axios";
+import { createAxiosAdapter } from "./axiosAdapter";
+import type { HttpMethod } from "./queryKey";
+import {
+  SPECS,
+  getServerUrl,
+  type ServerName,
+  type SecuritySchemeDefinition,
+  type ServerVariables,
+  type SpecName,
+} from "./specs";
 
 /**
  * Axios config type excluding params and data (managed by generated code).
  * Use this to inject custom headers, responseType, onUploadProgress, etc.
  *
  * @example
- * // File upload with progress
+ * // File upload with progress (multipart bodies are converted to FormData)
  * uploadFile({
- *   body: formData,
+ *   body: { file },
  *   config: {
- *     headers: { 'Content-Type': 'multipart/form-data' },
  *     onUploadProgress: (e) => console.log(e.loaded / e.total)
  *   }
  * });
@@ -169,6 +283,8 @@ import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
  */
 export type RequestConfig = Omit<AxiosRequestConfig, 'params' | 'data'>;
 
+${getHttpAdapterTypesTemplate()}
+
 /**
  * Options for customizing HTTP client behavior
  */
@@ -188,38 +304,86 @@ export interface HttpClientOptions {
   onError?: (error: any) => any;
 }
 
-let httpClient: AxiosInstance | null = null;
-let responseHandler: ((response: any) => any) | null = null;
-let errorHandler: ((error: any) => any) | null = null;
+interface RegisteredClient {
+  adapter: HttpAdapter;
+  options?: HttpClientOptions;
+  /** Whether the client sets its own base URL (custom adapters are assumed to) */
+  hasBaseUrl: () => boolean;
+}
+
+let defaultClient: RegisteredClient | null = null;
+const specClients = new Map<SpecName, RegisteredClient>();
 
+/**
+ * Register the HTTP client used by generated API code.
+ * Pass a spec name first to use a client for that spec only
+ * (other specs keep using the default client).
+ */
+export function setHttpClient(
+  client: AxiosInstance | HttpAdapter,
+  options?: HttpClientOptions
+): void;
+export function setHttpClient(
+  spec: SpecName,
+  client: AxiosInstance | HttpAdapter,
+  options?: HttpClientOptions
+): void;
 export function setHttpClient(
-  client: AxiosInstance,
+  specOrClient: SpecName | AxiosInstance | HttpAdapter,
+  clientOrOptions?: AxiosInstance | HttpAdapter | HttpClientOptions,
   options?: HttpClientOptions
 ): void {
-  httpClient = client;  // 원본 그대로 저장 (싱글톤 유지)
-  responseHandler = options?.onResponse ?? null;
-  errorHandler = options?.onError ?? null;
-}
-
-export function getHttpClient(): AxiosInstance {
-  if (!httpClient) {
-    throw new Error(
-      "HTTP client not initialized. Call setHttpClient(axiosInstance) in your app bootstrap."
+  if (typeof specOrClient === "string") {
+    specClients.set(
+      specOrClient,
+      toRegisteredClient(clientOrOptions as AxiosInstance | HttpAdapter, options)
+    );
+  } else {
+    defaultClient = toRegisteredClient(
+      specOrClient,
+      clientOrOptions as HttpClientOptions | undefined
     );
   }
-  return httpClient;
 }
 
+// axios 인스턴스는 원본 그대로 어댑터로 감싸서 저장 (인터셉터 유지)
+function toRegisteredClient(
+  client: AxiosInstance | HttpAdapter,
+  options?: HttpClientOptions
+): RegisteredClient {
+  if (!isAxiosInstance(client)) return { adapter: client, options, hasBaseUrl: () => true };
+  return {
+    adapter: createAxiosAdapter(client),
+    options,
+    hasBaseUrl: () => Boolean(client.defaults.baseURL),
+  };
+}
+
+function isAxiosInstance(client: AxiosInstance | HttpAdapter): client is AxiosInstance {
+  return typeof client === "function" && "interceptors" in client;
+}
+
+${getSpecRoutingTemplate("setHttpClient(axiosInstance)")}
+
 /**
- * Apply response/error handlers to a request promise.
- * Used internally by generated API code.
+ * Send a request through a registered client and apply its response/error handlers.
+ * Without an onError handler, axios HTTP error responses are rethrown as ApiError
+ * (network errors and other failures are rethrown unchanged).
  */
-export async function request<T>(promise: Promise<T>): Promise<T> {
+async function sendRequest<T>(client: RegisteredClient, request: HttpRequest): Promise<T> {
+  const { adapter, options } = client;
   try {
-    const result = await promise;
-    return responseHandler ? await responseHandler(result) : result;
+    const result = await adapter.request(request);
+    return options?.onResponse ? await options.onResponse(result) : result;
   } catch (error) {
-    if (errorHandler) return await errorHandler(error);
+    if (options?.onError) return await options.onError(error);
+    if (isAxiosError(error) && error.response) {
+      throw new ApiError(error.response.status, error.response.data, {
+        message: error.message,
+        headers: { ...error.response.headers },
+        originalError: error,
+      });
+    }
     throw error;
   }
 }
@@ -231,214 +395,1459 @@ export async function unwrap<T>(promise: Promise<AxiosResponse<T>>): Promise<T>
   const response = await promise;
   return response.data;
 }
-`;
+
+${getHttpClientHelpersTemplate()}`;
 }
 
 /**
- * queryKey.ts 템플릿
+ * httpClient.ts 템플릿 (fetch, axios 의존성 없음)
  */
-export function getQueryKeyTemplate(): string {
+export function getFetchHttpClientTemplate(): string {
   return `/**
- * React Query Key 생성 유틸리티
+ * HTTP Client Bootstrap (fetch)
  * Generated by oprq
  *
- * URL 패턴에서 타입 안전한 Query Key 배열을 생성합니다.
- */
-
-/**
- * HTTP Method 타입
- */
-export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
-
-/**
- * URL 패턴에서 {param} 형식의 파라미터 키를 추출하는 Template Literal Type
+ * Generated API code sends every request through an HttpAdapter.
+ * Pass options for the built-in fetch adapter or your own adapter to setHttpClient.
  *
  * @example
- * type Params = ExtractUrlParams<'/api/{userId}/posts/{postId}'>;
- * // => 'userId' | 'postId'
- */
-export type ExtractUrlParams<T extends string> =
-  T extends \`\${string}{\${infer Param}}\${infer Rest}\`
-    ? Param | ExtractUrlParams<Rest>
-    : never;
-
-/**
- * URL 패턴에서 파라미터 키를 추출하여 Record 타입 생성
+ * // Basic setup
+ * import { setHttpClient } from "@/api/__oprq__/httpClient";
  *
- * @example
- * type PathVariable = UrlParamsToRecord<'/api/{userId}/posts/{postId}'>;
- * // => { userId: string | number; postId: string | number }
- */
-export type UrlParamsToRecord<T extends string> = {
-  [K in ExtractUrlParams<T>]: string | number;
-};
-
-/**
- * URL 패턴에서 파라미터가 없는 경우를 처리하기 위한 조건부 타입
- */
-type HasUrlParams<T extends string> = ExtractUrlParams<T> extends never
-  ? false
-  : true;
-
-/**
- * Query Key 생성을 위한 요청 타입 (path 타입 자동 추론용)
+ * setHttpClient({
+ *   baseUrl: "/api",
+ *   headers: () => ({ Authorization: \`Bearer \${getToken()}\` }),
+ * });
  *
  * @example
- * // URL에 path variable이 있는 경우
- * type Req1 = TypedQueryKeyRequest<'/api/{userId}', { userId: number }, { status: string }, { name: string }>;
+ * // Per-spec clients and base URLs
+ * // (a spec's base URL comes from configureSpec or oprq.config.json; without one, requests use
+ * // the client's base URL, or the spec's first server when the client has none)
+ * setHttpClient({ headers: getAuthHeaders });                    // default client for every spec
+ * setHttpClient("PAYMENTS", { headers: getPaymentsAuthHeaders }); // PAYMENTS requests only
+ * configureSpec("PETSTORE", { baseUrl: "https://staging.petstore.example.com" });
  *
- * // URL에 path variable이 없는 경우
- * type Req2 = TypedQueryKeyRequest<'/api/users/list', Record<string, never>, { page: number }, undefined>;
+ * @example
+ * // Custom adapter (ky, ofetch, in-house wrappers, ...)
+ * setHttpClient({
+ *   request: ({ method, url, query, body, headers, signal }) =>
+ *     tracedHttp.send({ method, url, query, body, headers, signal }),
+ * });
  */
-export type TypedQueryKeyRequest<
-  TUrl extends string,
-  TPath extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
-  TParam extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
-  TBody extends Record<string, unknown> | undefined = Record<string, unknown> | undefined
-> = {
-  /** HTTP Method (예: 'GET', 'POST') */
-  method?: HttpMethod;
-  /** Path 파라미터 (예: { userId: 123 }) */
-  path?: TPath;
-  /** Query string 파라미터 (예: { name: 'hi', page: 1 }) */
-  param?: TParam;
-  /** Request body */
-  body?: TBody;
-};
+import { createFetchAdapter, type FetchAdapterOptions } from "./fetchAdapter";
+import type { HttpMethod } from "./queryKey";
+import {
+  SPECS,
+  getServerUrl,
+  type ServerName,
+  type SecuritySchemeDefinition,
+  type ServerVariables,
+  type SpecName,
+} from "./specs";
 
 /**
- * 타입 안전한 URL 파라미터 치환
- * URL 상수를 제네릭으로 전달하면 필요한 파라미터를 자동 추론
- *
- * @param urlPattern - URL 패턴 문자열 (as const 필수)
- * @param params - 치환할 파라미터 객체 (타입 자동 추론)
- * @returns 치환된 URL 문자열
+ * fetch options excluding method and body (managed by generated code).
+ * Use this to inject custom headers, credentials, cache, responseType, etc.
  *
  * @example
- * const URL = '/api/{userId}/posts/{postId}' as const;
- *
- * // ✅ OK
- * replaceUrlParams(URL, { userId: '123', postId: '456' });
- * // => '/api/123/posts/456'
- *
- * // ❌ TypeScript 에러: Property 'postId' is missing
- * replaceUrlParams(URL, { userId: '123' });
- *
- * // ❌ TypeScript 에러: 'wrongKey' does not exist
- * replaceUrlParams(URL, { userId: '123', postId: '456', wrongKey: 'x' });
+ * // File download as blob
+ * downloadFile({
+ *   pathParams: { fileId },
+ *   config: { responseType: 'blob' }
+ * });
  */
-export const replaceUrlParams = <T extends string>(
-  urlPattern: T,
-  ...args: HasUrlParams<T> extends true ? [params: UrlParamsToRecord<T>] : []
-): string => {
-  const params = args[0] as Record<string, string | number> | undefined;
-
-  if (!urlPattern) return "";
-  if (!params) return urlPattern;
-
-  return urlPattern.replace(/\\{([^}]+)\\}/g, (_, key) => {
-    const value = params[key];
-    return value !== undefined ? String(value) : "";
-  });
+export type RequestConfig = Omit<RequestInit, "method" | "body" | "headers"> & {
+  headers?: Record<string, string>;
+  /** How to read the response body (default: based on the Content-Type header) */
+  responseType?: "json" | "text" | "blob" | "arrayBuffer";
 };
+${getHttpAdapterTypesTemplate()}
 
 /**
- * URL 패턴을 파싱하여 React Query Key 배열 생성 (타입 안전)
- *
- * @param urlPattern - URL 패턴 문자열 (as const 필수)
- * @param request - { method, path, param, body } 형식의 요청 객체
- * @returns Query Key 배열
- *
- * @example
- * // 생성된 코드에서 사용 (제네릭 명시)
- * generateQueryKey<typeof API_URL, PathParams, QueryParams, Body>(API_URL, {
- *   method: "GET",
- *   path: req.pathParams,
- *   param: req.queryParams,
- *   body: req.body,
- * });
- * // => ["GET", "SPEC", "path", 123, { query }, { body }]
+ * Options for customizing HTTP client behavior
  */
-export const generateQueryKey = <
-  TUrl extends string,
-  TPath extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
-  TParam extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
-  TBody extends Record<string, unknown> | undefined = Record<string, unknown> | undefined
->(
-  urlPattern: TUrl,
-  request?: TypedQueryKeyRequest<TUrl, TPath, TParam, TBody>
-): unknown[] => {
-  const { method, path, param, body } =
-    request ?? ({} as TypedQueryKeyRequest<TUrl, TPath, TParam, TBody>);
+export interface HttpClientOptions {
+  /**
+   * Transform successful response before returning.
+   * @example (data) => data.result
+   */
+  onResponse?: (response: any) => any;
 
-  // URL 패턴을 세그먼트로 분리
-  const segments = urlPattern
-    .split(/[:/]/)
-    .filter(Boolean)
-    .map((segment) => {
-      // {variable} 패턴 치환
-      const match = segment.match(/^\\{(.+)\\}$/);
+  /**
+   * Transform error before rejecting.
+   * @example (error) => { throw { code: error.status, message: error.message } }
+   */
+  onError?: (error: any) => any;
+}
 
-      if (match && path) {
-        return (path as Record<string, unknown>)[match[1]];
-      }
-      return segment;
-    });
+interface RegisteredClient {
+  adapter: HttpAdapter;
+  options?: HttpClientOptions;
+  /** Whether the client sets its own base URL (custom adapters are assumed to) */
+  hasBaseUrl: () => boolean;
+}
 
-  const result: unknown[] = [];
+let defaultClient: RegisteredClient | null = null;
+const specClients = new Map<SpecName, RegisteredClient>();
 
-  // method가 있으면 맨 앞에 추가
-  if (method) {
-    result.push(method);
+/**
+ * Register the HTTP client used by generated API code.
+ * Pass a spec name first to use a client for that spec only
+ * (other specs keep using the default client).
+ */
+export function setHttpClient(
+  client?: HttpAdapter | FetchAdapterOptions,
+  options?: HttpClientOptions
+): void;
+export function setHttpClient(
+  spec: SpecName,
+  client?: HttpAdapter | FetchAdapterOptions,
+  options?: HttpClientOptions
+): void;
+export function setHttpClient(
+  specOrClient: SpecName | HttpAdapter | FetchAdapterOptions = {},
+  clientOrOptions?: HttpAdapter | FetchAdapterOptions | HttpClientOptions,
+  options?: HttpClientOptions
+): void {
+  if (typeof specOrClient === "string") {
+    specClients.set(
+      specOrClient,
+      toRegisteredClient((clientOrOptions ?? {}) as HttpAdapter | FetchAdapterOptions, options)
+    );
+  } else {
+    defaultClient = toRegisteredClient(
+      specOrClient,
+      clientOrOptions as HttpClientOptions | undefined
+    );
   }
+}
 
-  result.push(...segments);
+function toRegisteredClient(
+  client: HttpAdapter | FetchAdapterOptions,
+  options?: HttpClientOptions
+): RegisteredClient {
+  if (isHttpAdapter(client)) return { adapter: client, options, hasBaseUrl: () => true };
+  return { adapter: createFetchAdapter(client), options, hasBaseUrl: () => Boolean(client.baseUrl) };
+}
 
-  // param이 있으면 추가
-  if (param && Object.keys(param).length > 0) {
-    result.push(param);
-  }
+function isHttpAdapter(client: HttpAdapter | FetchAdapterOptions): client is HttpAdapter {
+  return typeof (client as HttpAdapter).request === "function";
+}
 
-  // body가 있으면 마지막에 추가
-  if (body && Object.keys(body).length > 0) {
-    result.push(body);
+${getSpecRoutingTemplate("setHttpClient({ baseUrl })")}
+
+/**
+ * Send a request through a registered client and apply its response/error handlers.
+ * HTTP error responses are thrown as ApiError by the fetch adapter.
+ */
+async function sendRequest<T>(client: RegisteredClient, request: HttpRequest): Promise<T> {
+  const { adapter, options } = client;
+  try {
+    const result = await adapter.request(request);
+    return options?.onResponse ? await options.onResponse(result) : result;
+  } catch (error) {
+    if (options?.onError) return await options.onError(error);
+    throw error;
   }
+}
 
-  return result;
-};
-`;
+${getHttpClientHelpersTemplate()}`;
 }
 
 /**
- * index.ts 템플릿
+ * HttpRequest/HttpAdapter 타입 - axios/fetch 템플릿에서 공유
  */
-export function getIndexTemplate(): string {
+function getHttpAdapterTypesTemplate(): string {
   return `/**
- * API Utilities
- * Generated by oprq
+ * Security requirement: scheme name → scopes.
+ * An operation accepts any one of its requirements; every scheme of a requirement is needed.
  */
-export { StringReplacer } from "./StringReplacer";
-export {
-  setHttpClient,
-  getHttpClient,
-  request,
-  unwrap,
-  type RequestConfig,
-  type HttpClientOptions,
-} from "./httpClient";
-export {
-  generateQueryKey,
-  replaceUrlParams,
-  type HttpMethod,
-  type ExtractUrlParams,
-  type UrlParamsToRecord,
-  type TypedQueryKeyRequest,
-} from "./queryKey";
-`;
-}
+export type SecurityRequirement = Readonly<Record<string, readonly string[]>>;
 
 /**
- * __oprq__ 폴더 및 유틸리티 파일 생성
+ * Request passed from generated API code to the HttpAdapter.
+ */
+export interface HttpRequest {
+  method: HttpMethod;
+  /**
+   * Request URL: the spec's base URL + path, or the path itself
+   * (with its "SPEC:" prefix when keepSpecPrefix is true) if the spec has no base URL
+   * and the client's own base URL applies
+   */
+  url: string;
+  /** Query parameters */
+  query?: object;
+  /** Serialization of query params that differ from the default (see paramsSerializer) */
+  queryStyles?: QueryParamStyles;
+  /** Request body (form bodies are already FormData/URLSearchParams) */
+  body?: unknown;
+  /** Headers from typed header/cookie params and the body content type */
+  headers?: Record<string, string>;
+  /** Spec the request belongs to (set by getHttpClient(spec)) */
+  spec?: SpecName;
+  /** Security requirements of the operation (credentials are applied before the adapter runs) */
+  security?: readonly SecurityRequirement[];
+  signal?: AbortSignal;
+  /** Per-request config passed by the caller (config.headers take precedence) */
+  config?: RequestConfig;
+}
+
+/**
+ * Transport used by generated API code.
+ * Resolves with the response (transformed by onResponse), and should reject
+ * with ApiError for HTTP error responses.
+ */
+export interface HttpAdapter {
+  request<T = any>(request: HttpRequest): Promise<T>;
+}`;
+}
+
+/**
+ * 스펙별 클라이언트 라우팅 (configureSpec, getHttpClient, setAuthProvider) - axios/fetch 템플릿에서 공유
+ * sendRequest, specClients, defaultClient는 각 템플릿에서 정의
+ */
+function getSpecRoutingTemplate(setupHint: string): string {
+  return `/**
+ * Per-spec options
+ */
+export interface SpecOptions<S extends SpecName = SpecName, K extends ServerName<S> = ServerName<S>> {
+  /** Base URL for the spec's requests (takes precedence over server) */
+  baseUrl?: string;
+  /** Server from the spec's servers (defaults to the first server when only variables are given) */
+  server?: K;
+  /** Server variable values (unset variables use their defaults) */
+  variables?: ServerVariables<S, K>;
+}
+
+const specBaseUrls = new Map<SpecName, string>();
+
+/**
+ * Override a spec's settings at runtime (e.g. per environment).
+ *
+ * @example
+ * configureSpec("PETSTORE", { baseUrl: "https://staging.petstore.example.com" });
+ *
+ * @example
+ * // Pick a server declared in the spec (names and enum values are type-checked)
+ * configureSpec("PAYMENTS", { server: "staging", variables: { region: "eu" } });
+ */
+export function configureSpec<S extends SpecName, K extends ServerName<S> = ServerName<S>>(
+  spec: S,
+  options: SpecOptions<S, K>
+): void {
+  if (options.baseUrl !== undefined) {
+    specBaseUrls.set(spec, options.baseUrl);
+  } else if (options.server !== undefined || options.variables !== undefined) {
+    specBaseUrls.set(spec, getServerUrl(spec, options.server, options.variables));
+  }
+}
+
+/**
+ * Base URL configured for a spec: the configureSpec override, then oprq.config.json baseUrl.
+ * Without one, requests use the HTTP client's base URL
+ * (or the spec's first server when the built-in client has no base URL).
+ */
+export function getSpecBaseUrl(spec: SpecName): string | undefined {
+  const specs: Record<string, { baseUrl?: string }> = SPECS;
+  return specBaseUrls.get(spec) ?? specs[spec]?.baseUrl;
+}
+
+/**
+ * HttpAdapter used by generated API code.
+ * With a spec name, uses the client registered for that spec (or the default client)
+ * replaces the "SPEC:" URL prefix with the spec's base URL and applies
+ * setAuthProvider credentials to operations with security requirements.
+ * The selected client's onResponse/onError handlers are applied to every request.
+ */
+export function getHttpClient(spec?: SpecName): HttpAdapter {
+  const client = (spec !== undefined && specClients.get(spec)) || defaultClient;
+  if (!client) {
+    throw new Error(
+      \`HTTP client not initialized\${spec ? \` for \${spec}\` : ""}. Call ${setupHint} in your app bootstrap.\`
+    );
+  }
+  return {
+    request: async (request) => {
+      if (spec === undefined) return sendRequest(client, request);
+
+      const routed = { ...request, spec, url: resolveSpecUrl(spec, request.url, client) };
+      return sendRequest(client, await applyAuth(spec, routed));
+    },
+  };
+}
+
+/**
+ * Replace the spec prefix of a URL with the spec's base URL.
+ * The spec's first server is only a fallback for built-in clients without a base URL,
+ * so a client-level base URL is never overridden by the spec's servers.
+ * Otherwise URLs of specs without a base URL are passed through unchanged.
+ */
+function resolveSpecUrl(spec: SpecName, url: string, client: RegisteredClient): string {
+  const specs: Record<string, { serverUrl?: string }> = SPECS;
+  const baseUrl =
+    getSpecBaseUrl(spec) ?? (client.hasBaseUrl() ? undefined : specs[spec]?.serverUrl);
+  if (baseUrl === undefined) return url;
+  const prefix = \`\${spec}:\`;
+  const path = url.startsWith(prefix) ? url.slice(prefix.length) : url;
+  return \`\${baseUrl.replace(/\\/+$/, "")}\${path}\`;
+}
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Credentials for operations that declare security requirements.
+ * Each callback receives the security scheme name and may return undefined
+ * when it has no credentials (the next requirement of the operation is tried).
+ */
+export interface AuthProvider {
+  /** Token for http bearer, oauth2 and openIdConnect schemes (sent as "Authorization: Bearer <token>") */
+  bearer?: (scheme: string) => Awaitable<string | null | undefined>;
+  /** Credentials for http basic schemes */
+  basic?: (
+    scheme: string
+  ) => Awaitable<{ username: string; password: string } | null | undefined>;
+  /** Value for apiKey schemes (sent in the header, query or cookie declared by the scheme) */
+  apiKey?: (scheme: string) => Awaitable<string | null | undefined>;
+}
+
+let defaultAuthProvider: AuthProvider | null = null;
+const specAuthProviders = new Map<SpecName, AuthProvider>();
+
+/**
+ * Register credentials for operations with security requirements.
+ * Operations without security requirements never call the provider.
+ * Pass a spec name first to use a provider for that spec only.
+ *
+ * @example
+ * setAuthProvider({
+ *   bearer: () => getAccessToken(),
+ *   apiKey: (scheme) => (scheme === "partnerKey" ? PARTNER_KEY : undefined),
+ * });
+ */
+export function setAuthProvider(provider: AuthProvider): void;
+export function setAuthProvider(spec: SpecName, provider: AuthProvider): void;
+export function setAuthProvider(
+  specOrProvider: SpecName | AuthProvider,
+  provider?: AuthProvider
+): void {
+  if (typeof specOrProvider === "string") {
+    specAuthProviders.set(specOrProvider, provider as AuthProvider);
+  } else {
+    defaultAuthProvider = specOrProvider;
+  }
+}
+
+type ApplyCredential = (request: HttpRequest) => HttpRequest;
+
+/**
+ * Apply credentials for the first security requirement the auth provider can satisfy.
+ * The request is sent unchanged when no requirement can be satisfied.
+ */
+async function applyAuth(spec: SpecName, request: HttpRequest): Promise<HttpRequest> {
+  const provider = specAuthProviders.get(spec) ?? defaultAuthProvider;
+  if (!provider || !request.security?.length) return request;
+
+  const specs: Record<string, { securitySchemes: Record<string, SecuritySchemeDefinition> }> =
+    SPECS;
+  const schemes = specs[spec].securitySchemes;
+
+  for (const requirement of request.security) {
+    const names = Object.keys(requirement);
+    if (names.length === 0) continue;
+
+    const credentials = await Promise.all(
+      names.map((name) => resolveCredential(provider, name, schemes[name]))
+    );
+    if (credentials.every((apply) => apply !== undefined)) {
+      return credentials.reduce((result, apply) => apply!(result), request);
+    }
+  }
+  return request;
+}
+
+async function resolveCredential(
+  provider: AuthProvider,
+  name: string,
+  scheme: SecuritySchemeDefinition | undefined
+): Promise<ApplyCredential | undefined> {
+  if (!scheme) return undefined;
+
+  if (scheme.type === "apiKey" && scheme.name) {
+    const value = await provider.apiKey?.(name);
+    if (value == null) return undefined;
+
+    const key = scheme.name;
+    switch (scheme.in) {
+      case "query":
+        return (request) => ({ ...request, query: { ...request.query, [key]: value } });
+      case "cookie":
+        return (request) =>
+          withHeader(request, "Cookie", \`\${key}=\${encodeURIComponent(value)}\`, "; ");
+      default:
+        return (request) => withHeader(request, key, value);
+    }
+  }
+
+  if (scheme.type === "http" && scheme.scheme === "basic") {
+    const credentials = await provider.basic?.(name);
+    if (!credentials) return undefined;
+
+    const encoded = btoa(\`\${credentials.username}:\${credentials.password}\`);
+    return (request) => withHeader(request, "Authorization", \`Basic \${encoded}\`);
+  }
+
+  if (
+    (scheme.type === "http" && scheme.scheme === "bearer") ||
+    scheme.type === "oauth2" ||
+    scheme.type === "openIdConnect"
+  ) {
+    const token = await provider.bearer?.(name);
+    if (token == null) return undefined;
+
+    return (request) => withHeader(request, "Authorization", \`Bearer \${token}\`);
+  }
+
+  return undefined;
+}
+
+/**
+ * Add a header unless the request already has it (typed header params take precedence).
+ * With a separator, the value is appended to the existing header instead (Cookie).
+ */
+function withHeader(
+  request: HttpRequest,
+  name: string,
+  value: string,
+  separator?: string
+): HttpRequest {
+  const headers = { ...request.headers };
+  const existing = Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+
+  if (!existing) {
+    headers[name] = value;
+  } else if (separator) {
+    headers[existing] = \`\${headers[existing]}\${separator}\${value}\`;
+  }
+  return { ...request, headers };
+}`;
+}
+
+/**
+ * httpClient.ts 공통 헬퍼 (헤더 병합, ApiError, form 본문 직렬화) - axios/fetch 템플릿에서 공유
+ */
+function getHttpClientHelpersTemplate(): string {
+  return `/**
+ * Build request headers from header/cookie parameters.
+ * Used internally by generated API code.
+ * Explicit headers (e.g. the body Content-Type) take precedence over typed header parameters.
+ * Cookie parameters are sent as a Cookie header, which browsers ignore
+ * (use it from server-side code, or rely on the browser's cookie jar).
+ */
+export function buildRequestHeaders(
+  headerParams?: Record<string, unknown>,
+  cookieParams?: Record<string, unknown>,
+  headers?: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headerParams ?? {})) {
+    if (value === undefined || value === null) continue;
+    result[name] = Array.isArray(value) ? value.map(String).join(",") : String(value);
+  }
+
+  const cookies = Object.entries(cookieParams ?? {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => \`\${name}=\${encodeURIComponent(String(value))}\`);
+  if (cookies.length > 0) {
+    result["Cookie"] = cookies.join("; ");
+  }
+
+  return { ...result, ...headers };
+}
+
+/**
+ * Error thrown by generated API code when the server responds with an error status.
+ * Each endpoint exports a \`RequestError\` union keyed by status code,
+ * so checking \`error.status\` narrows \`error.body\`.
+ *
+ * @example
+ * try {
+ *   await createPet({ body });
+ * } catch (error) {
+ *   if (isApiError(error) && error.status === 422) {
+ *     console.log(error.body); // typed as the 422 response body
+ *   }
+ * }
+ */
+export class ApiError<TStatus extends number = number, TBody = unknown> extends Error {
+  readonly status: TStatus;
+  readonly body: TBody;
+  readonly headers: Record<string, unknown>;
+  /** The original error thrown by the HTTP client */
+  readonly originalError: unknown;
+
+  constructor(
+    status: TStatus,
+    body: TBody,
+    options?: { message?: string; headers?: Record<string, unknown>; originalError?: unknown }
+  ) {
+    super(options?.message ?? \`Request failed with status code \${status}\`);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+    this.headers = options?.headers ?? {};
+    this.originalError = options?.originalError;
+  }
+}
+
+/**
+ * Discriminated ApiError union from a status-keyed error map.
+ * Range keys ("4XX", "5XX", "default") map to ApiError<number, TBody>.
+ * @example ApiErrorOf<{ 404: NotFound; 422: ValidationError }>
+ *   => ApiError<404, NotFound> | ApiError<422, ValidationError>
+ */
+export type ApiErrorOf<TErrors> = [keyof TErrors] extends [never]
+  ? ApiError
+  : {
+      [K in keyof TErrors]: ApiError<K extends number ? K : number, TErrors[K]>;
+    }[keyof TErrors];
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Per-property encoding of form bodies (requestBody.content[*].encoding in the spec).
+ */
+export type BodyEncoding = Record<
+  string,
+  {
+    contentType?: string;
+    style?: "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+    explode?: boolean;
+  }
+>;
+
+/**
+ * Serialize a typed body to multipart/form-data.
+ * Used internally by generated API code.
+ * Arrays are sent as repeated fields, Blob/File values as file parts and
+ * objects as JSON parts (or as the content type given in the encoding).
+ */
+export function toFormData(
+  body: object | undefined,
+  encoding?: BodyEncoding
+): FormData | undefined {
+  if (body === undefined || body === null) return undefined;
+
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(body)) {
+    const contentType = encoding?.[name]?.contentType;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      formData.append(name, toFormDataValue(item, contentType));
+    }
+  }
+  return formData;
+}
+
+function toFormDataValue(value: unknown, contentType?: string): string | Blob {
+  if (value instanceof Blob) return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    return new Blob([JSON.stringify(value)], { type: contentType ?? "application/json" });
+  }
+  if (contentType && contentType !== "text/plain") {
+    return new Blob([String(value)], { type: contentType });
+  }
+  return String(value);
+}
+
+const ARRAY_DELIMITERS = { form: ",", spaceDelimited: " ", pipeDelimited: "|" } as const;
+
+/**
+ * Serialize a typed body to application/x-www-form-urlencoded.
+ * Used internally by generated API code.
+ * Follows the encoding's style/explode (defaults: style "form", explode true).
+ */
+export function toUrlSearchParams(
+  body: object | undefined,
+  encoding?: BodyEncoding
+): URLSearchParams | undefined {
+  if (body === undefined || body === null) return undefined;
+
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue;
+    const style = encoding?.[name]?.style ?? "form";
+    const explode = encoding?.[name]?.explode ?? style === "form";
+
+    for (const [key, values] of toStyledPairs(name, value, style, explode)) {
+      params.append(key, values.join(getDelimiter(style)));
+    }
+  }
+  return params;
+}
+
+/**
+ * Serialization of query parameters that differ from the default (style "form", explode true)
+ */
+export type QueryParamStyles = Record<
+  string,
+  {
+    style?: "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+    explode?: boolean;
+    /** Keep reserved characters (:/?#[]@!$&'()*+,;=) unencoded */
+    allowReserved?: boolean;
+  }
+>;
+
+/**
+ * Serialize query parameters following the OpenAPI style/explode rules.
+ * Used by the built-in adapters (call it from custom adapters to get the same URLs).
+ *
+ * @example
+ * paramsSerializer({ ids: [1, 2] });                                  // "ids=1&ids=2"
+ * paramsSerializer({ ids: [1, 2] }, { ids: { explode: false } });     // "ids=1,2"
+ * paramsSerializer({ filter: { status: "open" } }, { filter: { style: "deepObject" } });
+ * // "filter[status]=open"
+ */
+export function paramsSerializer(query: object | undefined, styles?: QueryParamStyles): string {
+  if (query === undefined || query === null) return "";
+
+  const pairs: string[] = [];
+  for (const [name, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    const style = styles?.[name]?.style ?? "form";
+    const explode = styles?.[name]?.explode ?? style === "form";
+    const encode = styles?.[name]?.allowReserved ? encodeAllowReserved : encodeURIComponent;
+    const delimiter = style === "spaceDelimited" ? "%20" : getDelimiter(style);
+
+    for (const [key, values] of toStyledPairs(name, value, style, explode)) {
+      const encodedKey = encodeURIComponent(key).replace(/%5B/g, "[").replace(/%5D/g, "]");
+      pairs.push(\`\${encodedKey}=\${values.map(encode).join(delimiter)}\`);
+    }
+  }
+  return pairs.join("&");
+}
+
+type ParamStyle = NonNullable<QueryParamStyles[string]["style"]>;
+
+/**
+ * Split a parameter into key/values pairs following its style and explode.
+ * Exploded arrays repeat the key, exploded objects use the property names
+ * (deepObject: name[property]), and the values of non-exploded ones are joined by the caller.
+ */
+function toStyledPairs(
+  name: string,
+  value: unknown,
+  style: ParamStyle,
+  explode: boolean
+): Array<[string, string[]]> {
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => item !== undefined && item !== null).map(toParamValue);
+    return explode ? items.map((item) => [name, [item]]) : [[name, items]];
+  }
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .map(([key, v]): [string, string] => [key, toParamValue(v)]);
+    if (style === "deepObject") return entries.map(([key, v]) => [\`\${name}[\${key}]\`, [v]]);
+    if (explode) return entries.map(([key, v]) => [key, [v]]);
+    return [[name, entries.flat()]];
+  }
+  return [[name, [toParamValue(value)]]];
+}
+
+function getDelimiter(style: ParamStyle): string {
+  return style === "deepObject" ? "," : ARRAY_DELIMITERS[style];
+}
+
+/**
+ * encodeURIComponent that keeps RFC 3986 reserved characters (allowReserved)
+ */
+function encodeAllowReserved(value: string): string {
+  return encodeURIComponent(value).replace(/%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi, (match) =>
+    decodeURIComponent(match)
+  );
+}
+
+function toParamValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+`;
+}
+
+/**
+ * queryKey.ts 템플릿
+ */
+export function getQueryKeyTemplate(): string {
+  return `/**
+ * React Query Key 생성 유틸리티
+ * Generated by oprq
+ *
+ * URL 패턴에서 타입 안전한 Query Key 배열을 생성합니다.
+ */
+
+import { serializePathParam } from "./StringReplacer";
+
+/**
+ * HTTP Method 타입
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS";
+
+/**
+ * URL 패턴에서 {param} 형식의 파라미터 키를 추출하는 Template Literal Type
+ *
+ * @example
+ * type Params = ExtractUrlParams<'/api/{userId}/posts/{postId}'>;
+ * // => 'userId' | 'postId'
+ */
+export type ExtractUrlParams<T extends string> =
+  T extends \`\${string}{\${infer Param}}\${infer Rest}\`
+    ? Param | ExtractUrlParams<Rest>
+    : never;
+
+/**
+ * URL 패턴에서 파라미터 키를 추출하여 Record 타입 생성
+ *
+ * @example
+ * type PathVariable = UrlParamsToRecord<'/api/{userId}/posts/{postId}'>;
+ * // => { userId: string | number; postId: string | number }
+ */
+export type UrlParamsToRecord<T extends string> = {
+  [K in ExtractUrlParams<T>]: string | number;
+};
+
+/**
+ * URL 패턴에서 파라미터가 없는 경우를 처리하기 위한 조건부 타입
+ */
+type HasUrlParams<T extends string> = ExtractUrlParams<T> extends never
+  ? false
+  : true;
+
+/**
+ * Query Key 생성을 위한 요청 타입 (path 타입 자동 추론용)
+ *
+ * @example
+ * // URL에 path variable이 있는 경우
+ * type Req1 = TypedQueryKeyRequest<'/api/{userId}', { userId: number }, { status: string }, { name: string }>;
+ *
+ * // URL에 path variable이 없는 경우
+ * type Req2 = TypedQueryKeyRequest<'/api/users/list', Record<string, never>, { page: number }, undefined>;
+ */
+export type TypedQueryKeyRequest<
+  TUrl extends string,
+  TPath extends object | undefined = Record<string, unknown> | undefined,
+  TParam extends object | undefined = Record<string, unknown> | undefined,
+  TBody = Record<string, unknown> | undefined
+> = {
+  /** HTTP Method (예: 'GET', 'POST') */
+  method?: HttpMethod;
+  /** Path 파라미터 (예: { userId: 123 }) */
+  path?: TPath;
+  /** Query string 파라미터 (예: { name: 'hi', page: 1 }) */
+  param?: TParam;
+  /** Request body */
+  body?: TBody;
+  /** Header 파라미터 (예: { "X-Tenant-Id": "acme" }) */
+  header?: Record<string, unknown>;
+  /** Cookie 파라미터 */
+  cookie?: Record<string, unknown>;
+};
+
+/**
+ * 타입 안전한 URL 파라미터 치환
+ * URL 상수를 제네릭으로 전달하면 필요한 파라미터를 자동 추론
+ *
+ * 값은 StringReplacer와 같이 encodeURIComponent로 인코딩
+ *
+ * @param urlPattern - URL 패턴 문자열 (as const 필수)
+ * @param params - 치환할 파라미터 객체 (타입 자동 추론)
+ * @returns 치환된 URL 문자열
+ * @throws 값이 없는 경로 파라미터가 있으면 에러
+ *
+ * @example
+ * const URL = '/api/{userId}/posts/{postId}' as const;
+ *
+ * // ✅ OK
+ * replaceUrlParams(URL, { userId: '123', postId: '456' });
+ * // => '/api/123/posts/456'
+ *
+ * // ❌ TypeScript 에러: Property 'postId' is missing
+ * replaceUrlParams(URL, { userId: '123' });
+ *
+ * // ❌ TypeScript 에러: 'wrongKey' does not exist
+ * replaceUrlParams(URL, { userId: '123', postId: '456', wrongKey: 'x' });
+ */
+export const replaceUrlParams = <T extends string>(
+  urlPattern: T,
+  ...args: HasUrlParams<T> extends true ? [params: UrlParamsToRecord<T>] : []
+): string => {
+  const params = (args[0] ?? {}) as Record<string, unknown>;
+
+  return urlPattern.replace(/\\{([^}]+)\\}/g, (_, key: string) =>
+    serializePathParam(key, params[key])
+  );
+};
+
+/**
+ * URL 패턴을 파싱하여 React Query Key 배열 생성 (타입 안전)
+ *
+ * @param urlPattern - URL 패턴 문자열 (as const 필수)
+ * @param request - { method, path, param, body } 형식의 요청 객체
+ * @returns Query Key 배열
+ *
+ * @example
+ * // 생성된 코드에서 사용 (제네릭 명시)
+ * generateQueryKey<typeof API_URL, PathParams, QueryParams, Body>(API_URL, {
+ *   method: "GET",
+ *   path: req.pathParams,
+ *   param: req.queryParams,
+ *   body: req.body,
+ * });
+ * // => ["GET", "SPEC", "path", 123, { query }, { body }]
+ */
+export const generateQueryKey = <
+  TUrl extends string,
+  TPath extends object | undefined = Record<string, unknown> | undefined,
+  TParam extends object | undefined = Record<string, unknown> | undefined,
+  TBody = Record<string, unknown> | undefined
+>(
+  urlPattern: TUrl,
+  request?: TypedQueryKeyRequest<TUrl, TPath, TParam, TBody>
+): unknown[] => {
+  const { method, path, param, body, header, cookie } =
+    request ?? ({} as TypedQueryKeyRequest<TUrl, TPath, TParam, TBody>);
+
+  // URL 패턴을 세그먼트로 분리
+  const segments = urlPattern
+    .split(/[:/]/)
+    .filter(Boolean)
+    .map((segment) => {
+      // {variable} 패턴 치환
+      const match = segment.match(/^\\{(.+)\\}$/);
+
+      if (match && path) {
+        return (path as Record<string, unknown>)[match[1]];
+      }
+      return segment;
+    });
+
+  const result: unknown[] = [];
+
+  // method가 있으면 맨 앞에 추가
+  if (method) {
+    result.push(method);
+  }
+
+  result.push(...segments);
+
+  // param이 있으면 추가
+  if (param && Object.keys(param).length > 0) {
+    result.push(param);
+  }
+
+  // body가 있으면 추가 (빈 객체는 제외)
+  if (body !== undefined && body !== null && (typeof body !== "object" || Object.keys(body).length > 0)) {
+    result.push(body);
+  }
+
+  // header/cookie가 있으면 마지막에 추가 (같은 URL이라도 테넌트 등이 다르면 별도 캐시)
+  if (header && Object.keys(header).length > 0) {
+    result.push({ header });
+  }
+  if (cookie && Object.keys(cookie).length > 0) {
+    result.push({ cookie });
+  }
+
+  return result.map(toHashableKey);
+};
+
+/**
+ * bigint 값을 문자열로 변환 (React Query는 JSON.stringify로 Query Key를 해시하므로 bigint 불가)
+ */
+const toHashableKey = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toHashableKey);
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toHashableKey(item)])
+    );
+  }
+  return value;
+};
+`;
+}
+
+/**
+ * 내장 어댑터 템플릿 (axios: axiosAdapter.ts, fetch: fetchAdapter.ts)
+ */
+export function getHttpAdapterTemplate(httpClient: HttpClientType = "axios"): string {
+  return httpClient === "fetch"
+    ? getFetchAdapterTemplate()
+    : getAxiosAdapterTemplate();
+}
+
+/**
+ * axiosAdapter.ts 템플릿
+ */
+export function getAxiosAdapterTemplate(): string {
+  return `/**
+ * Built-in axios adapter
+ * Generated by oprq
+ */
+import type { AxiosInstance, RawAxiosRequestHeaders } from "axios";
+import { paramsSerializer, type HttpAdapter } from "./httpClient";
+
+/**
+ * Create an HttpAdapter backed by an axios instance.
+ * Resolves with whatever the instance resolves with
+ * (the AxiosResponse, unless interceptors or onResponse unwrap it).
+ */
+export function createAxiosAdapter(instance: AxiosInstance): HttpAdapter {
+  return {
+    request: ({ method, url, query, queryStyles, body, headers, signal, config }) =>
+      instance.request<any, any>({
+        ...config,
+        method,
+        url,
+        params: query,
+        paramsSerializer: config?.paramsSerializer ?? {
+          serialize: (params) => paramsSerializer(params, queryStyles),
+        },
+        data: body,
+        headers: { ...headers, ...(config?.headers as RawAxiosRequestHeaders | undefined) },
+        signal: signal ?? config?.signal,
+      }),
+  };
+}
+`;
+}
+
+/**
+ * fetchAdapter.ts 템플릿
+ */
+export function getFetchAdapterTemplate(): string {
+  return `/**
+ * Built-in fetch adapter
+ * Generated by oprq
+ */
+import {
+  ApiError,
+  paramsSerializer,
+  type HttpAdapter,
+  type QueryParamStyles,
+  type RequestConfig,
+} from "./httpClient";
+import { stripSpecPrefix } from "./specs";
+
+export interface FetchAdapterOptions {
+  /** Base URL prepended to request paths (e.g. "/api" or "https://api.example.com") */
+  baseUrl?: string;
+
+  /** Default headers sent with every request (request headers take precedence) */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+
+  /**
+   * Rewrite the request URL before baseUrl is applied.
+   * Receives the URL with its spec prefix when keepSpecPrefix is true
+   * and the spec has no base URL (see configureSpec).
+   * Absolute URLs returned here are used as-is.
+   * @default (url) => url without the "SPEC:" prefix
+   */
+  resolveUrl?: (url: string) => string;
+
+  /** fetch implementation (defaults to globalThis.fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create an HttpAdapter backed by fetch.
+ * Resolves with the parsed response body (JSON, text or Blob by Content-Type)
+ * and rejects with ApiError for non-2xx responses.
+ */
+export function createFetchAdapter(options: FetchAdapterOptions = {}): HttpAdapter {
+  return {
+    request: async ({ method, url, query, queryStyles, body, headers, signal, config = {} }) => {
+      const { headers: configHeaders, responseType, ...init } = config;
+      const defaultHeaders =
+        typeof options.headers === "function" ? await options.headers() : options.headers;
+      const requestHeaders = new Headers({ ...defaultHeaders, ...headers, ...configHeaders });
+
+      const response = await (options.fetch ?? fetch)(buildUrl(url, query, queryStyles, options), {
+        ...init,
+        method,
+        headers: requestHeaders,
+        body: toRequestBody(body, requestHeaders),
+        signal: signal ?? init.signal,
+      });
+      const responseBody = await readResponseBody(response, responseType);
+
+      if (!response.ok) {
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name] = value;
+        });
+        throw new ApiError(response.status, responseBody, { headers: responseHeaders });
+      }
+      return responseBody as any;
+    },
+  };
+}
+
+function buildUrl(
+  url: string,
+  query: object | undefined,
+  queryStyles: QueryParamStyles | undefined,
+  options: FetchAdapterOptions
+): string {
+  const resolved = options.resolveUrl
+    ? options.resolveUrl(url)
+    : stripSpecPrefix(url);
+  const base = /^[a-z][a-z0-9+.-]*:\\/\\//i.test(resolved)
+    ? ""
+    : (options.baseUrl ?? "").replace(/\\/+$/, "");
+  const queryString = paramsSerializer(query, queryStyles);
+  return \`\${base}\${resolved}\${queryString ? \`?\${queryString}\` : ""}\`;
+}
+
+/**
+ * FormData/URLSearchParams/Blob/string bodies are sent as-is, others as JSON.
+ * FormData drops the Content-Type header so the runtime can add the multipart boundary.
+ */
+function toRequestBody(data: unknown, headers: Headers): BodyInit | undefined {
+  if (data === undefined || data === null) return undefined;
+  if (data instanceof FormData) {
+    headers.delete("Content-Type");
+    return data;
+  }
+  if (
+    data instanceof URLSearchParams ||
+    data instanceof Blob ||
+    data instanceof ArrayBuffer ||
+    typeof data === "string"
+  ) {
+    return data;
+  }
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  return JSON.stringify(data);
+}
+
+async function readResponseBody(
+  response: Response,
+  responseType?: RequestConfig["responseType"]
+): Promise<unknown> {
+  if (response.status === 204 || response.status === 205) return undefined;
+  if (responseType) return response[responseType]();
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (/[/+]json/i.test(contentType)) {
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+  if (contentType === "" || contentType.startsWith("text/")) {
+    const text = await response.text();
+    return text === "" ? undefined : text;
+  }
+  return response.blob();
+}
+`;
+}
+
+/**
+ * validation.ts 템플릿 (응답 검증, 실패 처리 방식 설정)
+ * validateResponses 옵션으로 생성된 코드에서만 사용하므로 비활성화 시 번들에서 제거됨
+ */
+export function getValidationTemplate(): string {
+  return `/**
+ * Response Validation
+ * Generated by oprq
+ *
+ * Used by API code generated with "generate.validateResponses".
+ * Nothing else imports this module, so bundlers drop it when validation is disabled.
+ */
+import type { SpecName } from "./specs";
+
+export interface ValidationIssue {
+  path: ReadonlyArray<PropertyKey>;
+  message: string;
+}
+
+/**
+ * Schema used to validate a response (satisfied by the generated zod schemas).
+ */
+export interface ValidationSchema {
+  safeParse(
+    data: unknown
+  ): { success: true } | { success: false; error: { issues: ReadonlyArray<ValidationIssue> } };
+}
+
+/**
+ * Error thrown (or reported) when a response does not match its generated schema.
+ *
+ * @example
+ * if (isResponseValidationError(error)) {
+ *   console.log(error.endpoint, error.issues);
+ * }
+ */
+export class ResponseValidationError extends Error {
+  readonly spec: SpecName;
+  /** The endpoint as "METHOD /path" */
+  readonly endpoint: string;
+  readonly issues: ReadonlyArray<ValidationIssue>;
+  /** The response data that failed validation */
+  readonly data: unknown;
+
+  constructor(
+    spec: SpecName,
+    endpoint: string,
+    issues: ReadonlyArray<ValidationIssue>,
+    data: unknown
+  ) {
+    super(\`Invalid response from \${spec} \${endpoint}: \${issues.map(formatIssue).join("; ")}\`);
+    this.name = "ResponseValidationError";
+    this.spec = spec;
+    this.endpoint = endpoint;
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+export function isResponseValidationError(error: unknown): error is ResponseValidationError {
+  return error instanceof ResponseValidationError;
+}
+
+/**
+ * What happens when a response fails validation:
+ * - "throw": the request rejects with a ResponseValidationError (default)
+ * - "warn": the error is logged with console.warn and the response is returned
+ * - a callback: the error is reported to it and the response is returned
+ */
+export type ResponseValidationMode = "throw" | "warn" | ((error: ResponseValidationError) => void);
+
+let defaultMode: ResponseValidationMode = "throw";
+const specModes = new Map<SpecName, ResponseValidationMode>();
+
+/**
+ * Set how response validation failures are handled.
+ * Pass a spec name first to set the mode for that spec only.
+ *
+ * @example
+ * setResponseValidation("warn");
+ * setResponseValidation("PETSTORE", (error) => Sentry.captureException(error));
+ */
+export function setResponseValidation(mode: ResponseValidationMode): void;
+export function setResponseValidation(spec: SpecName, mode: ResponseValidationMode): void;
+export function setResponseValidation(
+  specOrMode: SpecName | ResponseValidationMode,
+  mode?: ResponseValidationMode
+): void {
+  if (mode !== undefined) {
+    specModes.set(specOrMode as SpecName, mode);
+  } else {
+    defaultMode = specOrMode as ResponseValidationMode;
+  }
+}
+
+/**
+ * Validate response data against its generated schema.
+ * Used internally by generated API code.
+ * The data is returned unchanged (unknown properties are kept) unless the mode is "throw".
+ */
+export function validateResponse<T>(
+  spec: SpecName,
+  endpoint: string,
+  schema: ValidationSchema,
+  data: T
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) return data;
+
+  const error = new ResponseValidationError(spec, endpoint, result.error.issues, data);
+  const mode = specModes.get(spec) ?? defaultMode;
+  if (mode === "throw") {
+    throw error;
+  }
+  if (mode === "warn") {
+    console.warn(error);
+  } else {
+    mode(error);
+  }
+  return data;
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return issue.path.length > 0
+    ? \`\${issue.path.map(String).join(".")}: \${issue.message}\`
+    : issue.message;
+}
+`;
+}
+
+/**
+ * revive.ts 템플릿 (응답 값을 format 매핑 타입으로, 요청 값을 JSON 값으로 변환)
+ * generate.formats로 Date/bigint 등을 매핑한 경우 생성된 코드에서만 사용
+ */
+export function getReviveTemplate(): string {
+  return `/**
+ * Response Revivers and Request Serializers
+ * Generated by oprq
+ *
+ * Converts JSON response values to the types mapped with "generate.formats"
+ * (e.g. ISO strings to Date) so runtime values match the generated types,
+ * and converts request values of those types back to the JSON values the
+ * spec describes (e.g. Date to ISO string, bigint to string).
+ */
+
+/**
+ * Converts a single JSON value. Never called for null or undefined.
+ */
+export type Reviver = (value: unknown) => unknown;
+
+/**
+ * Where to apply revivers in a response payload, or serializers in request
+ * arguments (generated per endpoint).
+ */
+export interface RevivePlan {
+  /** Converter for the value itself */
+  revive?: Reviver;
+  /** Plans for object properties */
+  properties?: Readonly<Record<string, RevivePlan>>;
+  /** Plan for array items */
+  items?: RevivePlan;
+  /** Plan for record values (additionalProperties) */
+  values?: RevivePlan;
+  /** Plans applied one after another (allOf/oneOf/anyOf members) */
+  all?: ReadonlyArray<RevivePlan>;
+  /** Component plan, resolved lazily so recursive schemas work */
+  ref?: () => RevivePlan;
+}
+
+/**
+ * Apply a revive plan to a response payload.
+ * Returns a converted copy; the input value is not modified.
+ */
+export function reviveResponse<T>(value: T, plan: RevivePlan): T {
+  return reviveValue(value, plan) as T;
+}
+
+/**
+ * Apply a serialize plan to request arguments before they are sent.
+ * Returns a converted copy; the input value is not modified. The result keeps
+ * the input type for convenience, but mapped values now hold their JSON value.
+ */
+export function serializeRequest<T>(value: T, plan: RevivePlan): T {
+  return reviveValue(value, plan) as T;
+}
+
+function reviveValue(value: unknown, plan: RevivePlan): unknown {
+  if (value === null || value === undefined) return value;
+
+  let result: unknown = value;
+  if (plan.ref) result = reviveValue(result, plan.ref());
+  plan.all?.forEach((member) => {
+    result = reviveValue(result, member);
+  });
+  if (plan.revive) result = plan.revive(result);
+
+  if (Array.isArray(result)) {
+    const items = plan.items;
+    return items ? result.map((item) => reviveValue(item, items)) : result;
+  }
+
+  if (isPlainObject(result) && (plan.properties || plan.values)) {
+    const copy: Record<string, unknown> = { ...result };
+    for (const [key, item] of Object.entries(result)) {
+      const itemPlan =
+        plan.properties && Object.prototype.hasOwnProperty.call(plan.properties, key) ? plan.properties[key] : plan.values;
+      if (itemPlan) copy[key] = reviveValue(item, itemPlan);
+    }
+    return copy;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * ISO 8601 string (date-time, date) or epoch milliseconds → Date
+ */
+export function reviveDate(value: unknown): unknown {
+  return typeof value === "string" || typeof value === "number" ? new Date(value) : value;
+}
+
+/**
+ * Integer string or number → bigint. Numbers beyond 2^53 have already lost
+ * precision during JSON parsing, so exact values must be sent as strings.
+ */
+export function reviveBigInt(value: unknown): unknown {
+  if (typeof value === "number" && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === "string" && /^-?\\d+$/.test(value.trim())) return BigInt(value.trim());
+  return value;
+}
+
+/**
+ * Numeric string (e.g. decimal) → number
+ */
+export function reviveNumber(value: unknown): unknown {
+  if (typeof value !== "string" || value.trim() === "") return value;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+/**
+ * Number → string (e.g. int64 kept as string)
+ */
+export function reviveString(value: unknown): unknown {
+  return typeof value === "number" || typeof value === "bigint" ? String(value) : value;
+}
+
+/**
+ * Date → ISO 8601 string (date-time)
+ */
+export function serializeDate(value: unknown): unknown {
+  return isValidDate(value) ? value.toISOString() : value;
+}
+
+/**
+ * Date → "YYYY-MM-DD" (format: date). Uses the UTC date, matching how
+ * reviveDate parses date-only strings, so revived values round-trip unchanged.
+ */
+export function serializeDateOnly(value: unknown): unknown {
+  return isValidDate(value) ? value.toISOString().slice(0, 10) : value;
+}
+
+/**
+ * Date → epoch milliseconds (Date mapped on a numeric format)
+ */
+export function serializeTimestamp(value: unknown): unknown {
+  return isValidDate(value) ? value.getTime() : value;
+}
+
+/**
+ * bigint or number → string (bigint cannot be passed to JSON.stringify, and
+ * decimal values mapped to number are sent as strings)
+ */
+export function serializeString(value: unknown): unknown {
+  return typeof value === "number" || typeof value === "bigint" ? String(value) : value;
+}
+
+/**
+ * Numeric string → number (e.g. int64 mapped to string)
+ */
+export function serializeNumber(value: unknown): unknown {
+  return reviveNumber(value);
+}
+
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+`;
+}
+
+/**
+ * index.ts 템플릿
+ */
+export function getIndexTemplate(httpClient: HttpClientType = "axios"): string {
+  // axios 전용: unwrap
+  const clientExports = httpClient === "fetch" ? "" : "\n  unwrap,";
+  const adapterExport =
+    httpClient === "fetch"
+      ? `export { createFetchAdapter, type FetchAdapterOptions } from "./fetchAdapter";`
+      : `export { createAxiosAdapter } from "./axiosAdapter";`;
+
+  return `/**
+ * API Utilities
+ * Generated by oprq
+ */
+export {
+  StringReplacer,
+  serializePathParam,
+  type PathParamStyles,
+} from "./StringReplacer";
+export {
+  setHttpClient,
+  getHttpClient,
+  configureSpec,
+  getSpecBaseUrl,
+  setAuthProvider,${clientExports}
+  buildRequestHeaders,
+  ApiError,
+  isApiError,
+  toFormData,
+  toUrlSearchParams,
+  paramsSerializer,
+  type RequestConfig,
+  type BodyEncoding,
+  type QueryParamStyles,
+  type ApiErrorOf,
+  type HttpAdapter,
+  type HttpRequest,
+  type HttpClientOptions,
+  type SpecOptions,
+  type AuthProvider,
+  type SecurityRequirement,
+} from "./httpClient";
+${adapterExport}
+export {
+  SPECS,
+  getServerUrl,
+  stripSpecPrefix,
+  type SpecName,
+  type ServerName,
+  type ServerVariables,
+  type ServerDefinition,
+  type ServerVariableDefinition,
+  type SecuritySchemeDefinition,
+} from "./specs";
+export {
+  generateQueryKey,
+  replaceUrlParams,
+  type HttpMethod,
+  type ExtractUrlParams,
+  type UrlParamsToRecord,
+  type TypedQueryKeyRequest,
+} from "./queryKey";
+export {
+  setResponseValidation,
+  validateResponse,
+  ResponseValidationError,
+  isResponseValidationError,
+  type ResponseValidationMode,
+  type ValidationSchema,
+  type ValidationIssue,
+} from "./validation";
+export {
+  reviveResponse,
+  reviveDate,
+  reviveBigInt,
+  reviveNumber,
+  reviveString,
+  serializeRequest,
+  serializeDate,
+  serializeDateOnly,
+  serializeTimestamp,
+  serializeString,
+  serializeNumber,
+  type Reviver,
+  type RevivePlan,
+} from "./revive";
+`;
+}
+
+/**
+ * __oprq__ 폴더 및 유틸리티 파일 생성
  */
 export async function ensureOprqFolder(outputPath: string): Promise<string> {
   const oprqPath = path.join(outputPath, OPRQ_FOLDER);
@@ -450,16 +1859,231 @@ export async function ensureOprqFolder(outputPath: string): Promise<string> {
  * 모든 유틸리티 파일 생성
  * @param outputPath 출력 경로
  * @param keepSpecPrefix 스펙 접두사 유지 여부 (기본값: true)
+ * @param httpClient HTTP 클라이언트 종류 (기본값: axios)
  */
-export async function generateUtilityFiles(outputPath: string, keepSpecPrefix: boolean = true): Promise<void> {
+export async function generateUtilityFiles(
+  outputPath: string,
+  keepSpecPrefix: boolean = true,
+  httpClient: HttpClientType = "axios"
+): Promise<void> {
   const oprqPath = await ensureOprqFolder(outputPath);
+  const files = getUtilityFiles(keepSpecPrefix, httpClient);
 
   await Promise.all([
-    fs.writeFile(path.join(oprqPath, "StringReplacer.ts"), getStringReplacerTemplate(keepSpecPrefix)),
-    fs.writeFile(path.join(oprqPath, "httpClient.ts"), getHttpClientTemplate()),
-    fs.writeFile(path.join(oprqPath, "queryKey.ts"), getQueryKeyTemplate()),
-    fs.writeFile(path.join(oprqPath, "index.ts"), getIndexTemplate()),
+    ...Object.entries(files).map(([fileName, content]) =>
+      fs.writeFile(path.join(oprqPath, fileName), content)
+    ),
+    fs.writeFile(path.join(oprqPath, TEMPLATE_VERSION_FILE), `${getTemplateVersion(files)}\n`),
+    // httpClient를 바꾼 경우 이전 어댑터 파일 삭제
+    removeFileSafe(
+      path.join(oprqPath, httpClient === "fetch" ? "axiosAdapter.ts" : "fetchAdapter.ts")
+    ),
   ]);
+  await generateSpecRegistry(outputPath);
+}
+
+/**
+ * 유틸리티 파일이 없거나 현재 템플릿과 버전이 다르면 다시 생성
+ * 엔드포인트 파일이 import 하는 유틸리티가 oprq 업그레이드 후에도 맞도록 generate/sync에서 호출
+ * 버전이 같으면 사용자가 수정한 유틸리티 파일을 그대로 둠
+ *
+ * @returns "created" (새로 생성), "updated" (다시 생성), "current" (최신 상태)
+ */
+export async function ensureUtilityFiles(
+  outputPath: string,
+  keepSpecPrefix: boolean = true,
+  httpClient: HttpClientType = "axios"
+): Promise<"created" | "updated" | "current"> {
+  const exists = await oprqFolderExists(outputPath);
+  if (exists) {
+    const versionPath = path.join(outputPath, OPRQ_FOLDER, TEMPLATE_VERSION_FILE);
+    const current = (await fileExists(versionPath))
+      ? (await fs.readFile(versionPath, "utf-8")).trim()
+      : undefined;
+    if (current === getTemplateVersion(getUtilityFiles(keepSpecPrefix, httpClient))) {
+      return "current";
+    }
+  }
+
+  await generateUtilityFiles(outputPath, keepSpecPrefix, httpClient);
+  return exists ? "updated" : "created";
+}
+
+/**
+ * 유틸리티 파일 이름 → 내용 (specs.ts 레지스트리 제외)
+ */
+function getUtilityFiles(
+  keepSpecPrefix: boolean,
+  httpClient: HttpClientType
+): Record<string, string> {
+  return {
+    "StringReplacer.ts": getStringReplacerTemplate(keepSpecPrefix),
+    "httpClient.ts": getHttpClientTemplate(httpClient),
+    [httpClient === "fetch" ? "fetchAdapter.ts" : "axiosAdapter.ts"]:
+      getHttpAdapterTemplate(httpClient),
+    "queryKey.ts": getQueryKeyTemplate(),
+    "validation.ts": getValidationTemplate(),
+    "revive.ts": getReviveTemplate(),
+    "index.ts": getIndexTemplate(httpClient),
+  };
+}
+
+/**
+ * 유틸리티 파일 내용의 해시 (템플릿 버전)
+ */
+function getTemplateVersion(files: Record<string, string>): string {
+  const hash = createHash("sha256");
+  Object.keys(files)
+    .sort()
+    .forEach((fileName) => hash.update(`${fileName}\0${files[fileName]}\0`));
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * specs.ts 템플릿 (스펙 레지스트리)
+ * 각 스펙 폴더의 spec.ts를 모아 스펙 이름 → 기본 baseUrl/서버 맵 생성
+ * 서버 이름/변수 타입과 서버 URL 생성(getServerUrl) 포함
+ */
+export function getSpecRegistryTemplate(specNames: string[]): string {
+  const imports = specNames
+    .map((name) => `import { spec as ${toSafeTypeName(name)} } from "../${name}/${SPEC_FILE_NAME}";`)
+    .join("\n");
+  const entries = specNames
+    .map((name) => {
+      const key = safePropertyKey(name);
+      const alias = toSafeTypeName(name);
+      return key === alias ? `\n  ${alias},` : `\n  ${key}: ${alias},`;
+    })
+    .join("");
+
+  return `/**
+ * Spec Registry
+ * Generated by oprq
+ *
+ * Every generated spec with its default base URL and servers.
+ * Regenerated by 'oprq generate' and 'oprq sync'.
+ */
+${imports ? `${imports}\n\n` : ""}export const SPECS = {${entries}${entries ? "\n" : ""}} as const;
+
+export type SpecName = keyof typeof SPECS;
+
+/**
+ * Server variable declared in a spec's servers.ts
+ */
+export interface ServerVariableDefinition {
+  readonly default: string;
+  readonly enum?: readonly string[];
+  readonly description?: string;
+}
+
+/**
+ * Server declared in a spec's servers.ts
+ */
+export interface ServerDefinition {
+  readonly url: string;
+  readonly description?: string;
+  readonly variables: Readonly<Record<string, ServerVariableDefinition>>;
+}
+
+/**
+ * Security scheme declared in a spec (only the fields used to apply credentials)
+ */
+export interface SecuritySchemeDefinition {
+  readonly type: "apiKey" | "http" | "oauth2" | "openIdConnect" | "mutualTLS";
+  /** http scheme, lowercased (bearer, basic, ...) */
+  readonly scheme?: string;
+  readonly in?: "header" | "query" | "cookie";
+  readonly name?: string;
+}
+
+type SpecServers<S extends SpecName> = (typeof SPECS)[S]["servers"];
+
+type ServerVariableDefinitions<S extends SpecName, K extends ServerName<S>> =
+  SpecServers<S>[K] extends { variables: infer V } ? V : never;
+
+/** Server names of a spec */
+export type ServerName<S extends SpecName> = Extract<keyof SpecServers<S>, string>;
+
+/** Values for a server's variables (enum variables only accept their enum values) */
+export type ServerVariables<S extends SpecName, K extends ServerName<S> = ServerName<S>> = {
+  [V in keyof ServerVariableDefinitions<S, K>]?: ServerVariableDefinitions<S, K>[V] extends {
+    enum: readonly (infer E)[];
+  }
+    ? E
+    : string;
+};
+
+/**
+ * Build the URL of a spec's server (the first server by default),
+ * replacing {variables} with the given values or their defaults.
+ * Throws for unknown servers and for values outside a variable's enum.
+ *
+ * @example
+ * getServerUrl("PAYMENTS", "staging", { region: "eu" }); // "https://eu.staging.example.com"
+ */
+export function getServerUrl<S extends SpecName, K extends ServerName<S> = ServerName<S>>(
+  spec: S,
+  server?: K,
+  variables: ServerVariables<S, K> = {}
+): string {
+  const specs: Record<string, { servers: Record<string, ServerDefinition> }> = SPECS;
+  const servers = specs[spec].servers;
+  const name = server ?? Object.keys(servers)[0];
+  const definition = servers[name];
+  if (!definition) {
+    throw new Error(\`Unknown server "\${name}" for \${spec}\`);
+  }
+
+  const values = variables as Record<string, string | undefined>;
+  return definition.url.replace(/\\{([^}]+)\\}/g, (match, key: string) => {
+    const variable = definition.variables[key];
+    if (!variable) return match;
+
+    const value = values[key] ?? variable.default;
+    if (variable.enum && !variable.enum.includes(value)) {
+      throw new Error(
+        \`Invalid value "\${value}" for server variable "\${key}" of \${spec} (expected one of: \${variable.enum.join(", ")})\`
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * Remove the "SPEC:" prefix of a registered spec from a URL.
+ * Spec names are matched exactly, so names like "my-api" are stripped too.
+ *
+ * @example
+ * stripSpecPrefix("PETSTORE:/pet/1"); // "/pet/1"
+ */
+export function stripSpecPrefix(url: string): string {
+  // "API" and "API:V2" both match "API:V2:/pets", the longest name wins
+  let spec: string | undefined;
+  for (const name of Object.keys(SPECS)) {
+    if (url.startsWith(\`\${name}:\`) && name.length > (spec?.length ?? -1)) spec = name;
+  }
+  return spec === undefined ? url : url.slice(spec.length + 1);
+}
+`;
+}
+
+/**
+ * __oprq__/specs.ts 생성
+ * 출력 경로에서 spec.ts가 있는 스펙 폴더를 찾아 레지스트리 작성
+ */
+export async function generateSpecRegistry(outputPath: string): Promise<void> {
+  const oprqPath = await ensureOprqFolder(outputPath);
+  const entries = await fs.readdir(outputPath, { withFileTypes: true });
+
+  const specNames: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === OPRQ_FOLDER) continue;
+    if (await fileExists(path.join(outputPath, entry.name, `${SPEC_FILE_NAME}.ts`))) {
+      specNames.push(entry.name);
+    }
+  }
+
+  await fs.writeFile(path.join(oprqPath, "specs.ts"), getSpecRegistryTemplate(specNames.sort()));
 }
 
 /**
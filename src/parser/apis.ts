@@ -1,5 +1,19 @@
 import { HTTP_METHODS } from "../constants/index.js";
-import type { OpenApiSpec, OperationObject } from "./openapi.js";
+import type { OpenApiSpec, OperationObject, SchemaAccess } from "./openapi.js";
+import {
+  getDiscriminatorMembers,
+  getEnumValuesName,
+  getGuardBaseName,
+  getSchemaTypeName,
+} from "./openapi.js";
+import { getRevivePlanName } from "./revive.js";
+import { getZodSchemaName } from "./zod.js";
+import {
+  generateOperationId,
+  toOperationName,
+  toPascalCase,
+  toSafeTypeName,
+} from "../utils/formatting.js";
 
 /**
  * API 정보 인터페이스
@@ -14,22 +28,207 @@ export interface ApiInfo {
 }
 
 /**
- * OpenAPI 스펙에서 모든 API 추출
+ * operationId 충돌 정보 (나중에 처리된 API가 새 이름을 받음)
+ */
+export interface OperationIdCollision {
+  method: string;
+  path: string;
+  /** 충돌한 이름 */
+  operationId: string;
+  /** 충돌을 피해 새로 붙인 이름 */
+  resolvedId: string;
+  /** 같은 이름을 먼저 차지한 API, 또는 생성 파일이 import/선언하는 이름 */
+  conflictsWith: { method: string; path: string } | { generatedName: string };
+}
+
+/**
+ * 엔드포인트 파일이 import하거나 직접 선언하는 이름 (fileGenerator 템플릿과 맞춰야 함)
+ * 함수/훅 이름이 이 이름과 같으면 import와 선언이 충돌해 파일이 컴파일되지 않음
+ */
+const FILE_TEMPLATE_NAMES: ReadonlyArray<string> = [
+  // __oprq__
+  "StringReplacer", "getHttpClient", "generateQueryKey", "buildRequestHeaders", "toFormData",
+  "toUrlSearchParams", "validateResponse", "reviveResponse", "serializeRequest", "reviveDate",
+  "reviveBigInt", "reviveNumber", "reviveString", "serializeDate", "serializeDateOnly",
+  "serializeTimestamp", "serializeString", "serializeNumber", "RequestConfig", "BodyEncoding",
+  "PathParamStyles", "QueryParamStyles", "SecurityRequirement", "RevivePlan", "ApiErrorOf",
+  // zod, React Query
+  "z", "useQuery", "useSuspenseQuery", "useMutation", "useInfiniteQuery", "UseQueryOptions",
+  "UseQueryResult", "UseSuspenseQueryResult", "UseMutationOptions", "UseMutationResult",
+  "UseInfiniteQueryOptions", "UseInfiniteQueryResult", "InfiniteData",
+  // 파일 상수
+  "API_URL", "PATH_STYLES", "QUERY_STYLES", "BODY_ENCODING", "SECURITY", "RESPONSE_REVIVE",
+  "REQUEST_SERIALIZE", "BodySchema", "ResponseSchema",
+];
+
+/**
+ * 스펙에 따라 엔드포인트 파일에 선언/import될 수 있는 이름
+ * (컴포넌트 타입과 zod 스키마, const enum 값, revive plan, 타입 가드, 파라미터 enum)
+ */
+function getSpecGeneratedNames(spec: OpenApiSpec): Set<string> {
+  const names = new Set(FILE_TEMPLATE_NAMES);
+  const accesses: Array<SchemaAccess | undefined> = [undefined, "read", "write"];
+
+  for (const [name, schema] of Object.entries(spec.components?.schemas ?? {})) {
+    for (const typeName of new Set(accesses.map((access) => getSchemaTypeName(name, spec, access)))) {
+      // 파일의 타입과 이름이 겹쳐 Model 접미사로 import된 경우 포함
+      for (const localName of [typeName, `${typeName}Model`]) {
+        names.add(localName).add(getZodSchemaName(localName, spec)).add(getEnumValuesName(localName, spec));
+      }
+    }
+    names.add(getRevivePlanName(name)).add(getRevivePlanName(name, "request"));
+
+    if (schema.discriminator && (schema.oneOf || schema.anyOf)) {
+      for (const member of getDiscriminatorMembers(schema, spec)) {
+        if (member.tags.length === 0) continue;
+        const baseName = getGuardBaseName(member);
+        names.add(`is${baseName}`).add(`is${toSafeTypeName(name)}${baseName}`).add(`isResponse${baseName}`);
+      }
+    }
+  }
+
+  for (const pathItem of Object.values(spec.paths ?? {})) {
+    const parameters = [
+      ...(pathItem.parameters ?? []),
+      ...HTTP_METHODS.flatMap((method) => pathItem[method]?.parameters ?? []),
+    ];
+    for (const param of parameters) {
+      const paramName = `${toSafeTypeName(toPascalCase(param.name))}Param`;
+      names.add(paramName).add(getEnumValuesName(paramName, spec));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * 함수 이름으로 생성 파일에 선언되는 이름 (Repository 함수, Query Key, 훅)
+ */
+function getOperationDeclarations(name: string): string[] {
+  const pascalCaseId = toPascalCase(name);
+  return [
+    name,
+    `${name}QueryKey`,
+    `use${pascalCaseId}Query`,
+    `use${pascalCaseId}SuspenseQuery`,
+    `use${pascalCaseId}InfiniteQuery`,
+    `use${pascalCaseId}Mutation`,
+  ];
+}
+
+/**
+ * 스펙 전체의 operationId 결정 결과
+ */
+export interface OperationIdResolution {
+  /** getOperationKey(method, path) → 함수 이름 */
+  ids: Map<string, string>;
+  collisions: OperationIdCollision[];
+}
+
+/**
+ * operationId 맵 키
+ * @example getOperationKey("get", "/pets") => "GET /pets"
+ */
+export function getOperationKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * 스펙의 모든 API에 유효하고 겹치지 않는 함수 이름 부여
+ * 1. operationId를 식별자로 정리 (없거나 쓸 글자가 없으면 메서드+경로로 생성)
+ * 2. 훅 이름(use{PascalCase}Query)이 같아지는 이름도 충돌로 간주
+ * 3. 스펙에 operationId가 있는 API가 먼저 이름을 차지하고, 충돌한 API는 숫자 접미사를 붙여 collisions에 기록
+ * 4. 함수/Query Key/훅 이름이 생성 파일이 import/선언하는 이름과 같으면 (validateResponse, useQuery 등)
+ *    첫 API도 숫자 접미사를 붙여 collisions에 기록
+ */
+export function resolveOperationIds(spec: OpenApiSpec): OperationIdResolution {
+  const candidates: Array<{ method: string; path: string; name: string; explicit: boolean }> = [];
+  for (const [path, methods] of Object.entries(spec.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation: OperationObject | undefined = methods[method];
+      if (!operation) continue;
+      const explicit = (operation.operationId && toOperationName(operation.operationId)) || "";
+      candidates.push({
+        method,
+        path,
+        name: explicit || generateOperationId(method, path),
+        explicit: Boolean(explicit),
+      });
+    }
+  }
+
+  // 접미사를 붙인 이름이 다른 API의 원래 이름을 빼앗지 않도록 원래 이름은 모두 예약
+  const reserved = new Set(candidates.map(({ name }) => toPascalCase(name)));
+  const owners = new Map<string, { method: string; path: string }>();
+  const ids = new Map<string, string>();
+  const collisions: OperationIdCollision[] = [];
+
+  const ordered = [
+    ...candidates.filter(({ explicit }) => explicit),
+    ...candidates.filter(({ explicit }) => !explicit),
+  ];
+  const generatedNames = getSpecGeneratedNames(spec);
+  const findGeneratedName = (name: string) =>
+    getOperationDeclarations(name).find((declaration) => generatedNames.has(declaration));
+  const isTaken = (name: string) =>
+    reserved.has(toPascalCase(name)) ||
+    owners.has(toPascalCase(name)) ||
+    findGeneratedName(name) !== undefined;
+
+  for (const { method, path, name } of ordered) {
+    let resolvedId = name;
+    const owner = owners.get(toPascalCase(name));
+    const generatedName = findGeneratedName(name);
+    if (owner || generatedName) {
+      let suffix = 2;
+      while (isTaken(`${name}${suffix}`)) suffix++;
+      resolvedId = `${name}${suffix}`;
+      collisions.push({
+        method,
+        path,
+        operationId: name,
+        resolvedId,
+        conflictsWith: owner ?? { generatedName: generatedName! },
+      });
+    }
+    owners.set(toPascalCase(resolvedId), { method, path });
+    ids.set(getOperationKey(method, path), resolvedId);
+  }
+
+  return { ids, collisions };
+}
+
+/**
+ * operationId 충돌 표시 문자열 생성
+ */
+export function formatOperationIdCollision(collision: OperationIdCollision): string {
+  const { method, path, operationId, resolvedId, conflictsWith } = collision;
+  const other =
+    "generatedName" in conflictsWith
+      ? `the generated name "${conflictsWith.generatedName}"`
+      : getOperationKey(conflictsWith.method, conflictsWith.path);
+  return `${getOperationKey(method, path)}: "${operationId}" is already used by ${other}, renamed to "${resolvedId}"`;
+}
+
+/**
+ * OpenAPI 스펙에서 모든 API 추출 (operationId는 resolveOperationIds 결과 사용)
  */
 export function extractAllApis(spec: OpenApiSpec): ApiInfo[] {
   const apis: ApiInfo[] = [];
 
   if (!spec.paths) return apis;
 
+  const { ids } = resolveOperationIds(spec);
+
   for (const [path, methods] of Object.entries(spec.paths)) {
     for (const method of HTTP_METHODS) {
-      const operation = methods[method] as OperationObject | undefined;
+      const operation: OperationObject | undefined = methods[method];
       if (!operation) continue;
 
       apis.push({
         method,
         path,
-        operationId: operation.operationId || `${method}${path.replace(/\//g, "_")}`,
+        operationId: ids.get(getOperationKey(method, path))!,
         summary: operation.summary,
         description: operation.description,
         tags: operation.tags,
@@ -1,5 +1,19 @@
+import path from "path";
+import { fileURLToPath } from "url";
 import SwaggerParser from "@apidevtools/swagger-parser";
 import type { OpenAPI } from "openapi-types";
+import { fileExists } from "../utils/files.js";
+import {
+  formatDocComment,
+  isValidTsIdentifier,
+  safePropertyKey,
+  toPascalCase,
+  toSafeTypeName,
+  toStringLiteral,
+} from "../utils/formatting.js";
+import type { HttpMethod } from "../constants/index.js";
+import type { EnumStyle, FormatMapping } from "../config/loader.js";
+import { isSwagger2, convertSwagger2ToOpenApi3 } from "./swagger2.js";
 
 /**
  * 커스텀 타입 정의
@@ -12,21 +26,72 @@ export interface OpenApiSpec {
     title: string;
     version: string;
   };
-  paths: Record<string, Record<string, OperationObject>>;
+  servers?: ServerObject[];
+  paths: Record<string, PathItemObject>;
   components?: {
     schemas?: Record<string, SchemaObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
   };
+  /** 모든 operation의 기본 보안 요구사항 */
+  security?: SecurityRequirementObject[];
   tags?: Array<{ name: string; description?: string }>;
 }
 
+/**
+ * Security Scheme (apiKey: header/query/cookie, http: bearer/basic, oauth2, openIdConnect)
+ */
+export interface SecuritySchemeObject {
+  type: "apiKey" | "http" | "oauth2" | "openIdConnect" | "mutualTLS";
+  description?: string;
+  /** apiKey 파라미터 이름 */
+  name?: string;
+  /** apiKey 위치 */
+  in?: "header" | "query" | "cookie";
+  /** http 인증 방식 (bearer, basic 등) */
+  scheme?: string;
+  bearerFormat?: string;
+}
+
+/**
+ * 보안 요구사항: 스킴 이름 → scope 목록
+ * 배열 안의 요구사항 중 하나만 만족하면 됨 (하나의 요구사항 안의 스킴은 모두 필요)
+ */
+export type SecurityRequirementObject = Record<string, string[]>;
+
+/**
+ * Server: API 기본 URL ({variable} 치환 가능)
+ */
+export interface ServerObject {
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariableObject>;
+}
+
+export interface ServerVariableObject {
+  default: string;
+  enum?: string[];
+  description?: string;
+}
+
+/**
+ * Path Item: 공통 파라미터 + HTTP 메서드별 Operation
+ */
+export type PathItemObject = {
+  summary?: string;
+  description?: string;
+  parameters?: ParameterObject[];
+} & Partial<Record<HttpMethod, OperationObject>>;
+
 export interface OperationObject {
   operationId?: string;
   summary?: string;
   description?: string;
   tags?: string[];
+  deprecated?: boolean;
   parameters?: ParameterObject[];
   requestBody?: RequestBodyObject;
   responses?: Record<string, ResponseObject>;
+  security?: SecurityRequirementObject[];
 }
 
 export interface ParameterObject {
@@ -35,50 +100,171 @@ export interface ParameterObject {
   required?: boolean;
   schema?: SchemaObject;
   description?: string;
+  deprecated?: boolean;
+  example?: unknown;
+  /** 직렬화 방식 (query 기본값: form, path/header 기본값: simple) */
+  style?: "form" | "simple" | "label" | "matrix" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+  /** 배열/객체 값 분리 여부 (기본값: style이 form이면 true) */
+  explode?: boolean;
+  /** query 값의 예약 문자(:/?#[]@!$&'()*+,;=) 인코딩 생략 여부 */
+  allowReserved?: boolean;
 }
 
 export interface RequestBodyObject {
   required?: boolean;
-  content?: Record<string, { schema?: SchemaObject }>;
+  content?: Record<string, MediaTypeObject>;
 }
 
 export interface ResponseObject {
   description?: string;
-  content?: Record<string, { schema?: SchemaObject }>;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject;
+  /** multipart/form-data, application/x-www-form-urlencoded 프로퍼티별 인코딩 */
+  encoding?: Record<string, EncodingObject>;
 }
 
+export interface EncodingObject {
+  contentType?: string;
+  style?: "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+  explode?: boolean;
+}
+
+/**
+ * 스키마 객체 (OpenAPI 3.0 + 3.1/JSON Schema 2020-12 키워드)
+ */
 export interface SchemaObject {
-  type?: string;
+  /** 3.1에서는 타입 배열 허용 (예: ["string", "null"]) */
+  type?: string | string[];
   $ref?: string;
   properties?: Record<string, SchemaObject>;
-  items?: SchemaObject;
+  /** 3.1: prefixItems와 함께 쓰이면 나머지 아이템 스키마, false면 추가 아이템 불가 */
+  items?: SchemaObject | boolean;
+  /** 3.1: 튜플 아이템 스키마 */
+  prefixItems?: SchemaObject[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  /** 3.0: minimum을 제외하는지 여부, 3.1: 제외 경계값 */
+  exclusiveMinimum?: boolean | number;
+  /** 3.0: maximum을 제외하는지 여부, 3.1: 제외 경계값 */
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
   required?: string[];
-  enum?: string[];
+  /** 문자열 외 숫자/boolean/null 값 허용 */
+  enum?: unknown[];
+  /** enum 값별 상수 이름 (openapi-generator 확장) */
+  "x-enum-varnames"?: string[];
+  /** enum 값별 상수 이름 (NSwag 확장) */
+  "x-enumNames"?: string[];
+  /** 3.1: 단일 리터럴 값 */
+  const?: unknown;
   format?: string;
+  title?: string;
   description?: string;
+  default?: unknown;
+  example?: unknown;
+  /** 3.1: example 대신 여러 예시 */
+  examples?: unknown[];
+  /** 3.1: 문자열 콘텐츠의 미디어 타입 (format: binary 대체) */
+  contentMediaType?: string;
+  contentEncoding?: string;
   allOf?: SchemaObject[];
   oneOf?: SchemaObject[];
   anyOf?: SchemaObject[];
   additionalProperties?: boolean | SchemaObject;
+  /** 3.0 전용 (3.1은 type 배열에 "null" 포함) */
   nullable?: boolean;
+  /** 응답에만 포함되는 프로퍼티 (요청 body에서 제외) */
+  readOnly?: boolean;
+  /** 요청에만 포함되는 프로퍼티 (응답에서 제외) */
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  discriminator?: DiscriminatorObject;
+  /** 3.1: 로컬 스키마 정의 */
+  $defs?: Record<string, SchemaObject>;
+}
+
+/**
+ * oneOf/anyOf 다형성 스키마의 구분자
+ * mapping 값은 "#/components/schemas/Dog" 또는 "Dog" 형태
+ */
+export interface DiscriminatorObject {
+  propertyName: string;
+  mapping?: Record<string, string>;
+}
+
+/**
+ * 원격(http/https) 스펙 소스 여부 확인
+ */
+export function isRemoteSpecSource(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * 스펙 소스를 swagger-parser가 읽을 수 있는 위치로 변환
+ * - http/https URL: 그대로 사용
+ * - file:// URL: 로컬 파일 경로로 변환
+ * - 상대/절대 파일 경로: cwd 기준 절대 경로로 변환
+ */
+export function resolveSpecSource(source: string, cwd: string = process.cwd()): string {
+  if (isRemoteSpecSource(source)) {
+    return source;
+  }
+  if (source.startsWith("file://")) {
+    return fileURLToPath(source);
+  }
+  return path.resolve(cwd, source);
 }
 
 /**
- * OpenAPI 스펙 fetch & dereference
+ * 스펙 소스 유효성 확인
+ * URL은 형식만, 로컬 파일은 존재 여부까지 확인
+ */
+export async function isValidSpecSource(
+  source: string,
+  cwd: string = process.cwd()
+): Promise<boolean> {
+  if (isRemoteSpecSource(source)) {
+    try {
+      new URL(source);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  try {
+    return await fileExists(resolveSpecSource(source, cwd));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * OpenAPI 스펙 load & dereference
  * swagger-parser를 사용하여:
- * - 외부 $ref 참조 자동 해석
+ * - 원격 URL, 로컬 파일 경로, file:// URL 모두 지원
+ * - JSON/YAML 자동 감지
+ * - Swagger 2.0 스펙은 OpenAPI 3.0으로 자동 변환
  * - 순환 참조 처리
- * - OpenAPI 2.0/3.0/3.1 모두 지원
  * - 스펙 유효성 검증
  */
-export async function fetchOpenApiSpec(url: string): Promise<OpenApiSpec> {
+export async function fetchOpenApiSpec(source: string): Promise<OpenApiSpec> {
   try {
-    // 먼저 URL에서 스펙을 fetch
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    const spec = await response.json();
+    // 소스에서 스펙을 읽어서 파싱 (JSON/YAML 자동 감지)
+    const parsed = await SwaggerParser.parse(resolveSpecSource(source));
+
+    // Swagger 2.0이면 OpenAPI 3.0 형태로 변환 (dereference 전에 $ref 경로까지 변환)
+    const spec = isSwagger2(parsed)
+      ? (convertSwagger2ToOpenApi3(parsed) as OpenAPI.Document)
+      : parsed;
 
     // dereference: 모든 $ref를 실제 스키마로 교체
     // 순환 참조는 JavaScript 객체 참조로 유지됨
@@ -90,13 +276,13 @@ export async function fetchOpenApiSpec(url: string): Promise<OpenApiSpec> {
 
     // OpenAPI 3.x인지 확인
     if (!isOpenAPI3(api)) {
-      throw new Error("Only OpenAPI 3.x is supported. Please convert your OpenAPI 2.0 (Swagger) spec to OpenAPI 3.x.");
+      throw new Error("Unsupported spec version. Only Swagger 2.0 and OpenAPI 3.x are supported.");
     }
 
     return api as unknown as OpenApiSpec;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to fetch/parse OpenAPI spec: ${error.message}`);
+      throw new Error(`Failed to load/parse OpenAPI spec: ${error.message}`);
     }
     throw error;
   }
@@ -109,6 +295,51 @@ function isOpenAPI3(api: OpenAPI.Document): boolean {
   return "openapi" in api && typeof api.openapi === "string" && api.openapi.startsWith("3.");
 }
 
+/**
+ * 스펙의 기본 서버 URL (첫 번째 server, 변수는 기본값으로 치환)
+ * servers가 없으면 undefined
+ */
+export function getDefaultServerUrl(spec: OpenApiSpec): string | undefined {
+  const server = spec.servers?.[0];
+  if (!server) return undefined;
+
+  return server.url.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    server.variables?.[name]?.default ?? match
+  );
+}
+
+/**
+ * Operation에 적용되는 보안 요구사항
+ * operation.security가 있으면 우선 (빈 배열은 인증 없음), 없으면 스펙 전체 security
+ * 정의되지 않은 스킴을 참조하는 요구사항은 제외
+ */
+export function getOperationSecurity(
+  operation: OperationObject,
+  spec: OpenApiSpec
+): SecurityRequirementObject[] {
+  const schemes = spec.components?.securitySchemes ?? {};
+  return (operation.security ?? spec.security ?? []).filter((requirement) =>
+    Object.keys(requirement).every((name) => name in schemes)
+  );
+}
+
+/**
+ * Path Item 레벨 파라미터와 Operation 레벨 파라미터 병합
+ * name + in 조합이 같으면 Operation 레벨 파라미터가 우선 (OpenAPI 스펙 규칙)
+ */
+export function mergeParameters(
+  pathParameters: ParameterObject[] = [],
+  operationParameters: ParameterObject[] = []
+): ParameterObject[] {
+  const merged = new Map<string, ParameterObject>();
+
+  for (const param of [...pathParameters, ...operationParameters]) {
+    merged.set(`${param.in}:${param.name}`, param);
+  }
+
+  return Array.from(merged.values());
+}
+
 /**
  * $ref에서 스키마 이름 추출
  */
@@ -129,17 +360,310 @@ export function resolveRef(ref: string, spec: OpenApiSpec): SchemaObject | null
 }
 
 /**
- * 스키마를 TypeScript 타입 문자열로 변환 (인라인)
- * $ref를 만나면 실제 스키마를 풀어서 인라인 타입으로 생성
+ * 컴포넌트 스키마 이름 캐시 (스펙별 스키마 객체 → 이름)
+ */
+const schemaNameCache = new WeakMap<OpenApiSpec, Map<SchemaObject, string>>();
+
+/**
+ * 스키마가 가리키는 컴포넌트(components.schemas) 이름 조회
+ * dereference 후에도 $ref가 가리키던 객체는 components.schemas의 객체와 동일한 참조이므로
+ * 객체 identity로 원래 컴포넌트 이름을 찾을 수 있음
+ */
+export function getSchemaName(
+  schema: SchemaObject,
+  spec: OpenApiSpec
+): string | undefined {
+  if (schema.$ref) {
+    return resolveRef(schema.$ref, spec) ? getRefName(schema.$ref) : undefined;
+  }
+
+  let names = schemaNameCache.get(spec);
+  if (!names) {
+    names = new Map(
+      Object.entries(spec.components?.schemas ?? {}).map(([name, s]) => [s, name])
+    );
+    schemaNameCache.set(spec, names);
+  }
+  return names.get(schema);
+}
+
+/**
+ * readOnly/writeOnly 프로퍼티 처리 방향
+ * - read: 응답 타입 (writeOnly 프로퍼티 제외)
+ * - write: 요청 타입 (readOnly 프로퍼티 제외)
+ */
+export type SchemaAccess = "read" | "write";
+
+/**
+ * 타입 문자열 생성 옵션
+ */
+export interface TypeStringOptions {
+  /**
+   * 컴포넌트 스키마를 인라인하지 않고 타입 이름으로 참조 (공유 모델 파일 사용 시)
+   */
+  useSchemaNames?: boolean;
+  /**
+   * 타입 이름으로 참조한 타입 이름 수집 (import 문 생성용, 변형 타입 이름 포함)
+   */
+  referencedNames?: Set<string>;
+  /**
+   * readOnly/writeOnly 프로퍼티 처리 방향 (지정하지 않으면 모든 프로퍼티 포함)
+   */
+  access?: SchemaAccess;
+  /**
+   * 생성 파일의 다른 선언과 겹치는 타입 이름 (참조 시 Model 접미사로 회피)
+   */
+  reservedNames?: ReadonlySet<string>;
+  /**
+   * enum 컴포넌트 선언 방식 (const: const 객체 + 타입 + 값 배열, 기본값 union)
+   */
+  enums?: EnumStyle;
+  /**
+   * format별 타입 매핑 (generate.formats)
+   */
+  formats?: Record<string, FormatMapping>;
+  /**
+   * 매핑된 타입으로 변환한 format 수집 (import 문 생성용)
+   */
+  usedFormats?: Set<string>;
+}
+
+/**
+ * 정규화된 format 타입 매핑
+ */
+export interface ResolvedFormatMapping {
+  type: string;
+  import?: string;
+  revive?: string;
+  serialize?: string;
+}
+
+/**
+ * 스키마 format에 지정된 타입 매핑 조회 (매핑이 없으면 undefined)
+ */
+export function getFormatMapping(
+  schema: SchemaObject,
+  formats: Record<string, FormatMapping> | undefined
+): ResolvedFormatMapping | undefined {
+  if (!schema.format || !formats || !Object.hasOwn(formats, schema.format)) {
+    return undefined;
+  }
+  const mapping = formats[schema.format];
+  return typeof mapping === "string" ? { type: mapping } : mapping;
+}
+
+/**
+ * 매핑된 format의 타입/reviver/serializer import 문 생성 (import가 지정된 매핑만, 모듈별로 묶음)
+ * @param typeFormats - 타입을 사용한 format
+ * @param reviverFormats - reviver 함수를 사용한 format
+ * @param serializerFormats - serialize 함수를 사용한 format
+ */
+export function generateFormatImports(
+  formats: Record<string, FormatMapping> | undefined,
+  typeFormats: Iterable<string>,
+  reviverFormats: Iterable<string> = [],
+  serializerFormats: Iterable<string> = []
+): string[] {
+  const modules = new Map<string, { types: Set<string>; values: Set<string> }>();
+  const getModule = (format: string) => {
+    const mapping = getFormatMapping({ format }, formats);
+    if (!mapping?.import) return undefined;
+    const entry = modules.get(mapping.import) ?? { types: new Set<string>(), values: new Set<string>() };
+    modules.set(mapping.import, entry);
+    return { mapping, entry };
+  };
+
+  for (const format of typeFormats) {
+    const found = getModule(format);
+    found?.entry.types.add(found.mapping.type);
+  }
+  for (const format of reviverFormats) {
+    const found = getModule(format);
+    if (found?.mapping.revive) found.entry.values.add(found.mapping.revive);
+  }
+  for (const format of serializerFormats) {
+    const found = getModule(format);
+    if (found?.mapping.serialize) found.entry.values.add(found.mapping.serialize);
+  }
+
+  return Array.from(modules.entries())
+    .filter(([, { types, values }]) => types.size > 0 || values.size > 0)
+    .map(([source, { types, values }]) => {
+      if (values.size === 0) {
+        return `import type { ${Array.from(types).join(", ")} } from ${toStringLiteral(source)};`;
+      }
+      const specifiers = [...Array.from(types).map((type) => `type ${type}`), ...Array.from(values)];
+      return `import { ${specifiers.join(", ")} } from ${toStringLiteral(source)};`;
+    });
+}
+
+/**
+ * readOnly/writeOnly 프로퍼티 포함 여부 캐시
+ */
+const accessVariantCache = new WeakMap<SchemaObject, boolean>();
+
+/**
+ * 스키마가 (하위 스키마 포함) readOnly/writeOnly 프로퍼티를 가지는지 확인
+ * true면 요청/응답 변형 타입(UserRead/UserWrite)이 필요함
+ */
+export function hasAccessVariants(schema: SchemaObject): boolean {
+  let result = accessVariantCache.get(schema);
+  if (result === undefined) {
+    result = containsAccessProperties(schema, new Set());
+    accessVariantCache.set(schema, result);
+  }
+  return result;
+}
+
+function containsAccessProperties(
+  schema: SchemaObject,
+  visited: Set<SchemaObject>
+): boolean {
+  if (visited.has(schema)) return false;
+  visited.add(schema);
+
+  const children = [
+    ...Object.values(schema.properties ?? {}),
+    ...(typeof schema.items === "object" ? [schema.items] : []),
+    ...(schema.prefixItems ?? []),
+    ...(schema.allOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...(schema.anyOf ?? []),
+    ...(typeof schema.additionalProperties === "object" ? [schema.additionalProperties] : []),
+  ];
+
+  return (
+    Object.values(schema.properties ?? {}).some((prop) => prop.readOnly || prop.writeOnly) ||
+    children.some((child) => containsAccessProperties(child, visited))
+  );
+}
+
+/**
+ * 스펙별 컴포넌트 타입 이름 캐시 (변형 타입, zod 스키마 등 파생 이름 충돌 확인용)
+ */
+const componentTypeNamesCache = new WeakMap<OpenApiSpec, Set<string>>();
+
+export function getComponentTypeNames(spec: OpenApiSpec): Set<string> {
+  let names = componentTypeNamesCache.get(spec);
+  if (!names) {
+    names = new Set(Object.keys(spec.components?.schemas ?? {}).map(toSafeTypeName));
+    componentTypeNamesCache.set(spec, names);
+  }
+  return names;
+}
+
+/**
+ * 컴포넌트 스키마의 타입 이름 (readOnly/writeOnly 변형 포함)
+ * 변형 이름이 다른 컴포넌트 이름과 겹치면 Model 접미사 (Pet + PetRead 컴포넌트 → PetReadModel)
+ * @example getSchemaTypeName("User", spec, "write") => "UserWrite" (readOnly 프로퍼티가 있는 경우)
+ */
+export function getSchemaTypeName(
+  name: string,
+  spec: OpenApiSpec,
+  access?: SchemaAccess
+): string {
+  const typeName = toSafeTypeName(name);
+  const schema = spec.components?.schemas?.[name];
+  if (!access || !schema || !hasAccessVariants(schema)) {
+    return typeName;
+  }
+
+  const componentTypeNames = getComponentTypeNames(spec);
+  let variantName = `${typeName}${access === "read" ? "Read" : "Write"}`;
+  while (componentTypeNames.has(variantName)) variantName = `${variantName}Model`;
+  return variantName;
+}
+
+/**
+ * 생성 파일에서 실제로 사용할 참조 타입 이름 (예약된 이름과 겹치면 Model 접미사)
+ * @example getReferenceTypeName("Response", { reservedNames }) => "ResponseModel"
+ */
+export function getReferenceTypeName(
+  typeName: string,
+  options: Pick<TypeStringOptions, "reservedNames"> = {}
+): string {
+  return options.reservedNames?.has(typeName) ? `${typeName}Model` : typeName;
+}
+
+/**
+ * 스키마를 TypeScript 타입 문자열로 변환
+ * - 기본: 컴포넌트 스키마를 풀어서 인라인 타입으로 생성 (순환 참조는 타입 이름으로 참조)
+ * - useSchemaNames: 컴포넌트 스키마는 항상 타입 이름으로 참조
+ * 타입 이름으로 참조한 경우 options.referencedNames에 수집되므로 호출 측에서 선언해야 함
  */
 export function schemaToTypeString(
   schema: SchemaObject | undefined,
   spec: OpenApiSpec,
   depth = 0,
-  visitedRefs: Set<string> = new Set()
+  visitedRefs: Set<string> = new Set(),
+  options: TypeStringOptions = {}
 ): string {
   if (!schema) return "unknown";
 
+  const name = getSchemaName(schema, spec);
+  if (name && (options.useSchemaNames || visitedRefs.has(name))) {
+    const typeName = getSchemaTypeName(name, spec, options.access);
+    options.referencedNames?.add(typeName);
+    return getReferenceTypeName(typeName, options);
+  }
+
+  // $ref는 schemaToInlineTypeString에서 방문 기록
+  if (!name || schema.$ref) {
+    return schemaToInlineTypeString(schema, spec, depth, visitedRefs, options);
+  }
+
+  // 인라인 확장 중인 컴포넌트 기록 (dereference된 순환 참조 감지)
+  visitedRefs.add(name);
+  const result = schemaToInlineTypeString(schema, spec, depth, visitedRefs, options);
+  visitedRefs.delete(name);
+  return result;
+}
+
+/**
+ * 이름 없는 스키마의 순환 참조 감지기 생성 (3.1 $defs 자기 참조 등)
+ * 컴포넌트가 아니면 이름으로 참조할 수 없으므로, 확장 중인 스키마를 다시 만나면 fallback 반환
+ * 변환은 동기적으로 진행되므로 변환기(타입, zod, revive plan)마다 하나씩 만들어 호출 스택 동안만 기록
+ */
+export function createExpansionGuard() {
+  const expanding = new Set<SchemaObject>();
+  return <T>(schema: SchemaObject, fallback: T, expand: () => T): T => {
+    if (expanding.has(schema)) return fallback;
+    expanding.add(schema);
+    try {
+      return expand();
+    } finally {
+      expanding.delete(schema);
+    }
+  };
+}
+
+const guardTypeExpansion = createExpansionGuard();
+
+/**
+ * 스키마 자체를 인라인 타입 문자열로 변환
+ * (하위 스키마는 schemaToTypeString 규칙을 따름, 이름 없는 순환 참조는 unknown)
+ * nullable은 스키마가 쓰인 위치(프로퍼티, 배열 아이템, additionalProperties, 응답 루트)와 무관하게 적용
+ */
+export function schemaToInlineTypeString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  depth = 0,
+  visitedRefs: Set<string> = new Set(),
+  options: TypeStringOptions = {}
+): string {
+  const type = guardTypeExpansion(schema, "unknown", () =>
+    expandInlineTypeString(schema, spec, depth, visitedRefs, options)
+  );
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function expandInlineTypeString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  depth: number,
+  visitedRefs: Set<string>,
+  options: TypeStringOptions
+): string {
   // $ref 처리 - 실제 스키마로 해석
   if (schema.$ref) {
     const refName = getRefName(schema.$ref);
@@ -152,7 +676,7 @@ export function schemaToTypeString(
     const resolvedSchema = resolveRef(schema.$ref, spec);
     if (resolvedSchema) {
       visitedRefs.add(refName);
-      const result = schemaToTypeString(resolvedSchema, spec, depth, visitedRefs);
+      const result = schemaToTypeString(resolvedSchema, spec, depth, visitedRefs, options);
       visitedRefs.delete(refName);
       return result;
     }
@@ -162,15 +686,27 @@ export function schemaToTypeString(
   // allOf 처리
   if (schema.allOf) {
     const types = schema.allOf.map((s) =>
-      schemaToTypeString(s, spec, depth, visitedRefs)
+      schemaToTypeString(s, spec, depth, visitedRefs, options)
     );
     return types.join(" & ");
   }
 
+  // discriminator가 있는 oneOf/anyOf: 멤버마다 리터럴 태그를 붙인 discriminated union
+  if (schema.discriminator && (schema.oneOf || schema.anyOf)) {
+    const key = safePropertyKey(schema.discriminator.propertyName);
+    const types = getDiscriminatorMembers(schema, spec).map((member) => {
+      const type = schemaToTypeString(member.schema, spec, depth, visitedRefs, options);
+      if (member.tags.length === 0) return type;
+      const tagType = member.tags.map((tag) => JSON.stringify(tag)).join(" | ");
+      return `(${type} & { ${key}: ${tagType} })`;
+    });
+    return types.join(" | ");
+  }
+
   // oneOf 처리
   if (schema.oneOf) {
     const types = schema.oneOf.map((s) =>
-      schemaToTypeString(s, spec, depth, visitedRefs)
+      schemaToTypeString(s, spec, depth, visitedRefs, options)
     );
     return types.join(" | ");
   }
@@ -178,42 +714,66 @@ export function schemaToTypeString(
   // anyOf 처리
   if (schema.anyOf) {
     const types = schema.anyOf.map((s) =>
-      schemaToTypeString(s, spec, depth, visitedRefs)
+      schemaToTypeString(s, spec, depth, visitedRefs, options)
     );
     return types.join(" | ");
   }
 
-  // 기본 타입 처리
-  switch (schema.type) {
+  // const (3.1): 단일 리터럴 타입
+  if (schema.const !== undefined) {
+    return toLiteralType(schema.const);
+  }
+
+  // enum: 리터럴 union (문자열 외 숫자/boolean/null 값 포함)
+  if (schema.enum) {
+    return schema.enum.map(toLiteralType).join(" | ");
+  }
+
+  // type 배열 (3.1): 각 타입의 union (예: ["string", "null"] => string | null)
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.map((type) =>
+      schemaToInlineTypeString({ ...schema, type, nullable: false }, spec, depth, visitedRefs, options)
+    );
+    return Array.from(new Set(types)).join(" | ");
+  }
+
+  // 기본 타입 처리 (type이 생략되면 키워드로 추론)
+  switch (schema.type ?? inferSchemaType(schema)) {
+    case "null":
+      return "null";
+
     case "string":
-      if (schema.enum) {
-        return schema.enum.map((e) => `"${e}"`).join(" | ");
-      }
-      if (schema.format === "binary") {
+      if (schema.format === "binary" || isBinaryMediaType(schema)) {
         return "Blob"; // File download/upload
       }
-      if (schema.format === "date-time" || schema.format === "date") {
-        return "string"; // ISO date string
-      }
-      return "string";
+      return applyFormatMapping(schema, options) ?? "string"; // date-time/date: ISO date string
 
     case "integer":
     case "number":
-      return "number";
+      return applyFormatMapping(schema, options) ?? "number";
 
     case "boolean":
       return "boolean";
 
-    case "array":
-      const itemType = schemaToTypeString(schema.items, spec, depth, visitedRefs);
-      return `${itemType}[]`;
+    case "array": {
+      // 튜플 (3.1 prefixItems)
+      if (schema.prefixItems) {
+        return tupleToTypeString(schema, spec, depth, visitedRefs, options);
+      }
+      const itemType =
+        typeof schema.items === "object"
+          ? schemaToTypeString(schema.items, spec, depth, visitedRefs, options)
+          : "unknown";
+      // union/intersection 아이템은 괄호로 감싸기 ("a" | "b"[] 방지)
+      return /[|&]/.test(itemType) ? `(${itemType})[]` : `${itemType}[]`;
+    }
 
     case "object":
       if (!schema.properties && schema.additionalProperties) {
         if (typeof schema.additionalProperties === "boolean") {
           return "Record<string, unknown>";
         }
-        const valueType = schemaToTypeString(schema.additionalProperties, spec, depth + 1, visitedRefs);
+        const valueType = schemaToTypeString(schema.additionalProperties, spec, depth + 1, visitedRefs, options);
         return `Record<string, ${valueType}>`;
       }
 
@@ -221,56 +781,441 @@ export function schemaToTypeString(
         return "Record<string, unknown>";
       }
 
-      // 깊은 중첩 방지 (가독성)
-      if (depth > 3) {
-        return "object";
-      }
-
-      const props = Object.entries(schema.properties)
-        .map(([key, prop]) => {
-          const optional = !schema.required?.includes(key) ? "?" : "";
-          const nullable = prop.nullable ? " | null" : "";
-          const type = schemaToTypeString(prop, spec, depth + 1, visitedRefs);
-          // 특수문자가 있는 키는 따옴표로 감싸기
-          const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `"${key}"`;
-          return `${safeKey}${optional}: ${type}${nullable}`;
-        })
-        .join("; ");
-      return `{ ${props} }`;
+      return `{ ${schemaPropertiesToTypeLines(schema, spec, depth, visitedRefs, options)
+        .map(({ doc, declaration }) => (doc ? `${formatDocComment(doc, "", true)} ${declaration}` : declaration))
+        .join("; ")} }`;
 
     default:
       // type이 없는 경우 (nullable만 있거나 등)
-      if (schema.nullable) {
-        return "unknown | null";
-      }
       return "unknown";
   }
 }
 
+/**
+ * format 매핑 타입 반환 (사용한 format은 options.usedFormats에 수집)
+ */
+function applyFormatMapping(schema: SchemaObject, options: TypeStringOptions): string | undefined {
+  const mapping = getFormatMapping(schema, options.formats);
+  if (!mapping) return undefined;
+  options.usedFormats?.add(schema.format!);
+  return mapping.type;
+}
+
+/**
+ * JSON 값을 TypeScript 리터럴 타입으로 변환
+ * 객체/배열 값은 리터럴로 표현하지 않고 unknown 처리
+ */
+function toLiteralType(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return "unknown";
+}
+
+/**
+ * type이 생략된 스키마의 타입 추론 (3.1 스펙에서 흔함)
+ */
+export function inferSchemaType(schema: SchemaObject): string | undefined {
+  if (schema.properties || schema.additionalProperties) return "object";
+  if (schema.items || schema.prefixItems) return "array";
+  return undefined;
+}
+
+/**
+ * contentMediaType (3.1)이 바이너리 콘텐츠인지 확인
+ * base64 등 contentEncoding이 있으면 문자열로 취급
+ */
+export function isBinaryMediaType(schema: SchemaObject): boolean {
+  const mediaType = schema.contentMediaType?.toLowerCase();
+  if (!mediaType || schema.contentEncoding) return false;
+  return !(
+    mediaType.startsWith("text/") ||
+    /^application\/(json|xml)$/.test(mediaType) ||
+    /\+(json|xml)$/.test(mediaType)
+  );
+}
+
+/**
+ * prefixItems 튜플 타입 생성
+ * - minItems 이후 아이템은 optional (minItems가 없으면 모두 필수로 취급)
+ * - items 스키마가 있으면 rest 아이템, items: false면 닫힌 튜플
+ */
+function tupleToTypeString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  depth: number,
+  visitedRefs: Set<string>,
+  options: TypeStringOptions
+): string {
+  const prefixItems = schema.prefixItems ?? [];
+  const requiredCount = schema.minItems ?? prefixItems.length;
+
+  const elements = prefixItems.map((item, index) => {
+    const type = schemaToTypeString(item, spec, depth, visitedRefs, options);
+    return index < requiredCount ? type : `${type}?`;
+  });
+
+  if (schema.items === false || schema.maxItems === prefixItems.length) {
+    return `[${elements.join(", ")}]`;
+  }
+
+  const restType =
+    typeof schema.items === "object"
+      ? schemaToTypeString(schema.items, spec, depth, visitedRefs, options)
+      : "unknown";
+  const rest = /[|&]/.test(restType) ? `(${restType})[]` : `${restType}[]`;
+  return `[${[...elements, `...${rest}`].join(", ")}]`;
+}
+
+/**
+ * 객체 스키마의 프로퍼티를 `key?: type` 형태의 문자열 목록으로 변환
+ */
+function schemaPropertiesToTypeLines(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  depth: number,
+  visitedRefs: Set<string>,
+  options: TypeStringOptions
+): Array<{ doc?: string[]; declaration: string }> {
+  return Object.entries(schema.properties ?? {})
+    .filter(([, prop]) => {
+      // 요청 타입에서는 readOnly, 응답 타입에서는 writeOnly 프로퍼티 제외
+      if (options.access === "write" && prop.readOnly) return false;
+      if (options.access === "read" && prop.writeOnly) return false;
+      return true;
+    })
+    .map(([key, prop]) => {
+      const optional = !schema.required?.includes(key) ? "?" : "";
+      const type = schemaToTypeString(prop, spec, depth + 1, visitedRefs, options);
+      // 컴포넌트 참조는 타입 선언에 문서가 있으므로 deprecated만 표시
+      const doc = getSchemaName(prop, spec)
+        ? prop.deprecated
+          ? ["@deprecated"]
+          : []
+        : getSchemaDocLines(prop);
+      // 특수문자가 있는 키는 따옴표로 감싸기
+      return {
+        doc: doc.length > 0 ? doc : undefined,
+        declaration: `${safePropertyKey(key)}${optional}: ${type}`,
+      };
+    });
+}
+
+/**
+ * 스키마 설명, format, 제약 조건, 기본값, 예시, deprecated를 JSDoc 줄로 변환
+ * @example getSchemaDocLines({ description: "Pet name", minLength: 1 }) => ["Pet name", "@minLength 1"]
+ */
+export function getSchemaDocLines(schema: SchemaObject): string[] {
+  const constraints: Array<[string, unknown]> = [
+    ["format", schema.format],
+    ["minimum", schema.minimum],
+    ["maximum", schema.maximum],
+    ["exclusiveMinimum", schema.exclusiveMinimum],
+    ["exclusiveMaximum", schema.exclusiveMaximum],
+    ["multipleOf", schema.multipleOf],
+    ["minLength", schema.minLength],
+    ["maxLength", schema.maxLength],
+    ["pattern", schema.pattern],
+    ["minItems", schema.minItems],
+    ["maxItems", schema.maxItems],
+  ];
+  const examples = Array.isArray(schema.examples)
+    ? schema.examples
+    : schema.example !== undefined
+    ? [schema.example]
+    : [];
+
+  return [
+    ...(schema.description ? [schema.description] : []),
+    ...constraints
+      .filter(([, value]) => value !== undefined && value !== false)
+      // 3.0 exclusiveMinimum/exclusiveMaximum (boolean)은 값 없이 표시
+      .map(([tag, value]) => (value === true ? `@${tag}` : `@${tag} ${value}`)),
+    ...(schema.default !== undefined ? [`@default ${JSON.stringify(schema.default)}`] : []),
+    ...examples.map((example) => `@example ${JSON.stringify(example)}`),
+    ...(schema.deprecated ? ["@deprecated"] : []),
+  ];
+}
+
+/**
+ * discriminator 멤버 정보
+ */
+export interface DiscriminatorMember {
+  schema: SchemaObject;
+  /** 컴포넌트 이름 (인라인 스키마면 undefined) */
+  name?: string;
+  /** discriminator 프로퍼티의 리터럴 값 목록 (알 수 없으면 빈 배열) */
+  tags: string[];
+}
+
+/**
+ * discriminator가 있는 oneOf/anyOf 멤버별 태그 값 계산
+ * mapping에 있으면 mapping 키, 없으면 컴포넌트 이름 (OpenAPI 암시적 매핑 규칙)
+ */
+export function getDiscriminatorMembers(
+  schema: SchemaObject,
+  spec: OpenApiSpec
+): DiscriminatorMember[] {
+  const members = schema.oneOf ?? schema.anyOf ?? [];
+  const mapping = Object.entries(schema.discriminator?.mapping ?? {});
+
+  return members.map((member) => {
+    const name = getSchemaName(member, spec);
+    if (!name) {
+      return { schema: member, tags: [] };
+    }
+
+    const mappedTags = mapping
+      .filter(([, target]) => getRefName(target) === name)
+      .map(([tag]) => tag);
+
+    return { schema: member, name, tags: mappedTags.length > 0 ? mappedTags : [name] };
+  });
+}
+
+/**
+ * 타입 가드 이름의 멤버 부분 (컴포넌트 이름, 인라인 멤버는 첫 태그)
+ * @example getGuardBaseName({ name: "Dog", ... }) => "Dog" (가드 이름 isDog)
+ */
+export function getGuardBaseName(member: DiscriminatorMember): string {
+  return toSafeTypeName(member.name ?? toPascalCase(member.tags[0]));
+}
+
+/**
+ * discriminated union 타입에 대한 타입 가드 생성
+ * @example export const isDog = (value: Pet): value is Extract<Pet, { petType: "dog" }> => value.petType === "dog";
+ * @param usedNames 이미 사용된 가드 이름 (중복 시 union 이름을 붙여서 구분)
+ */
+export function generateDiscriminatorGuards(
+  typeName: string,
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  usedNames: Set<string> = new Set()
+): string {
+  if (!schema.discriminator || !(schema.oneOf || schema.anyOf)) return "";
+
+  const propertyName = schema.discriminator.propertyName;
+  const key = safePropertyKey(propertyName);
+  const accessor = isValidTsIdentifier(propertyName)
+    ? `value.${propertyName}`
+    : `value[${JSON.stringify(propertyName)}]`;
+
+  return getDiscriminatorMembers(schema, spec)
+    .filter((member) => member.tags.length > 0)
+    .map((member) => {
+      const baseName = getGuardBaseName(member);
+      let guardName = `is${baseName}`;
+      if (usedNames.has(guardName)) {
+        guardName = `is${toSafeTypeName(typeName)}${baseName}`;
+      }
+      usedNames.add(guardName);
+
+      const tagType = member.tags.map((tag) => JSON.stringify(tag)).join(" | ");
+      const check =
+        member.tags.length === 1
+          ? `${accessor} === ${JSON.stringify(member.tags[0])}`
+          : `([${member.tags.map((tag) => JSON.stringify(tag)).join(", ")}] as unknown[]).includes(${accessor})`;
+
+      return `export const ${guardName} = (value: ${typeName}): value is Extract<${typeName}, { ${key}: ${tagType} }> =>
+  ${check};`;
+    })
+    .join("\n\n");
+}
+
 /**
  * 스키마를 개별 interface/type 정의로 생성
  */
 export function generateTypeDefinition(
   name: string,
   schema: SchemaObject,
-  spec: OpenApiSpec
+  spec: OpenApiSpec,
+  options: TypeStringOptions = {}
 ): string {
-  const typeString = schemaToTypeString(schema, spec, 0);
+  const typeName = toSafeTypeName(name);
+  const docComment = formatDocComment(getSchemaDocLines(schema));
+  const doc = docComment ? `${docComment}\n` : "";
+
+  // enum은 옵션에 따라 const 객체로 선언
+  if (options.enums === "const") {
+    const enumDefinition = generateEnumDefinition(typeName, schema, spec);
+    if (enumDefinition) return `${doc}${enumDefinition}`;
+  }
+
+  // nullable 객체는 null을 포함해야 하므로 type alias
+  const isInterface =
+    (schema.type ?? inferSchemaType(schema)) === "object" &&
+    !!schema.properties &&
+    !schema.nullable &&
+    !schema.$ref &&
+    !schema.allOf &&
+    !schema.oneOf &&
+    !schema.anyOf;
 
   // 단순 타입이면 type alias
-  if (!typeString.startsWith("{")) {
-    return `export type ${name} = ${typeString};`;
+  if (!isInterface) {
+    const typeString = schemaToInlineTypeString(schema, spec, 0, new Set(), options);
+    return `${doc}export type ${typeName} = ${typeString};`;
   }
 
-  // 객체면 interface
-  const props = typeString.slice(2, -2); // { } 제거
-  const formattedProps = props
-    .split("; ")
-    .filter(Boolean)
-    .map((prop) => `  ${prop};`)
+  // 객체면 interface (프로퍼티마다 JSDoc)
+  const formattedProps = schemaPropertiesToTypeLines(schema, spec, 0, new Set(), options)
+    .map(({ doc: propDoc, declaration }) =>
+      propDoc ? `${formatDocComment(propDoc, "  ")}\n  ${declaration};` : `  ${declaration};`
+    )
     .join("\n");
 
-  return `export interface ${name} {\n${formattedProps}\n}`;
+  return `${doc}export interface ${typeName} {\n${formattedProps}\n}`;
+}
+
+/**
+ * const enum 값 배열 이름
+ * 다른 컴포넌트 이름과 겹치면 Enum 접미사 (Status + StatusValues 컴포넌트 → StatusEnumValues)
+ * @example getEnumValuesName("PetStatus", spec) => "PetStatusValues"
+ */
+export function getEnumValuesName(name: string, spec: OpenApiSpec): string {
+  const componentTypeNames = getComponentTypeNames(spec);
+  let baseName = name;
+  while (componentTypeNames.has(`${baseName}Values`)) baseName = `${baseName}Enum`;
+  return `${baseName}Values`;
+}
+
+/**
+ * enum 스키마를 const 객체, 값 타입, 값 배열로 생성 (enum이 아니거나 객체/배열 값이 있으면 undefined)
+ * 키 이름은 x-enum-varnames/x-enumNames, 없으면 값에서 생성
+ * @example
+ * export const PetStatus = { Available: "available", Sold: "sold" } as const;
+ * export type PetStatus = (typeof PetStatus)[keyof typeof PetStatus];
+ * export const PetStatusValues = [PetStatus.Available, PetStatus.Sold] as const;
+ */
+export function generateEnumDefinition(
+  name: string,
+  schema: SchemaObject,
+  spec: OpenApiSpec
+): string | undefined {
+  const values = schema.enum;
+  if (!values || schema.$ref || values.some((value) => typeof value === "object" && value !== null)) {
+    return undefined;
+  }
+
+  const varNames = schema["x-enum-varnames"] ?? schema["x-enumNames"] ?? [];
+  const usedKeys = new Set<string>();
+  const keys = values.map((value, index) => {
+    const baseKey = varNames[index] || toEnumKey(value);
+    let key = baseKey;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${baseKey}${suffix}`;
+    }
+    usedKeys.add(key);
+    return key;
+  });
+
+  const members = keys.map((key, index) => `  ${safePropertyKey(key)}: ${JSON.stringify(values[index])},`);
+  const accessors = keys.map((key) =>
+    isValidTsIdentifier(key) ? `${name}.${key}` : `${name}[${JSON.stringify(key)}]`
+  );
+
+  return `export const ${name} = {
+${members.join("\n")}
+} as const;
+
+export type ${name} = (typeof ${name})[keyof typeof ${name}]${schema.nullable ? " | null" : ""};
+
+export const ${getEnumValuesName(name, spec)} = [${accessors.join(", ")}] as const;`;
+}
+
+/**
+ * enum 값으로 const 객체 키 생성
+ * @example "in_progress" => "InProgress", "SOLD_OUT" => "SoldOut", 1 => "Value1", null => "Null"
+ */
+function toEnumKey(value: unknown): string {
+  if (value === null) return "Null";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "number") {
+    return `Value${String(value).replace("-", "Minus").replace(".", "_")}`;
+  }
+
+  const key = String(value)
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => (word === word.toUpperCase() ? word.charAt(0) + word.slice(1).toLowerCase() : word))
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  if (!key) return "Empty";
+  return /^[0-9]/.test(key) ? `Value${key}` : key;
+}
+
+/**
+ * 참조된 타입 이름들의 정의 생성 (참조를 따라가며 필요한 타입을 모두 선언)
+ * 각 정의는 컴포넌트를 타입 이름으로 참조하므로 자기 참조/상호 참조 모델도 그대로 선언됨
+ *
+ * @param typeNames - schemaToTypeString의 referencedNames로 수집된 타입 이름
+ */
+export function generateReferencedTypeDefinitions(
+  typeNames: Iterable<string>,
+  spec: OpenApiSpec,
+  options: Pick<TypeStringOptions, "reservedNames" | "enums" | "formats" | "usedFormats"> = {}
+): string[] {
+  return generateReferencedDefinitions(typeNames, spec, options, generateTypeDefinition);
+}
+
+/**
+ * 참조된 타입 이름들을 따라가며 정의 생성 (타입 정의, zod 스키마 등 생성 함수 지정)
+ * generate는 options.referencedNames에 참조한 타입 이름을 수집해야 함
+ */
+export function generateReferencedDefinitions(
+  typeNames: Iterable<string>,
+  spec: OpenApiSpec,
+  options: Pick<TypeStringOptions, "reservedNames" | "enums" | "formats" | "usedFormats">,
+  generate: (
+    typeName: string,
+    schema: SchemaObject,
+    spec: OpenApiSpec,
+    options: TypeStringOptions
+  ) => string
+): string[] {
+  // 타입 이름 → 컴포넌트 이름/변형 방향
+  const components = new Map<string, { name: string; access?: SchemaAccess }>();
+  Object.entries(spec.components?.schemas ?? {}).forEach(([name, schema]) => {
+    components.set(getSchemaTypeName(name, spec), { name });
+    if (hasAccessVariants(schema)) {
+      (["read", "write"] as const).forEach((access) => {
+        components.set(getSchemaTypeName(name, spec, access), { name, access });
+      });
+    }
+  });
+
+  const queue = Array.from(typeNames);
+  const declared = new Set(queue);
+  const definitions: string[] = [];
+
+  while (queue.length > 0) {
+    const typeName = queue.shift()!;
+    const component = components.get(typeName);
+    const schema = component && spec.components?.schemas?.[component.name];
+    if (!component || !schema) continue;
+
+    const referencedNames = new Set<string>();
+    definitions.push(
+      generate(getReferenceTypeName(typeName, options), schema, spec, {
+        useSchemaNames: true,
+        referencedNames,
+        reservedNames: options.reservedNames,
+        enums: options.enums,
+        formats: options.formats,
+        usedFormats: options.usedFormats,
+        access: component.access,
+      })
+    );
+
+    referencedNames.forEach((name) => {
+      if (!declared.has(name)) {
+        declared.add(name);
+        queue.push(name);
+      }
+    });
+  }
+
+  return definitions;
 }
 
 /**
@@ -278,26 +1223,30 @@ export function generateTypeDefinition(
  */
 export function extractAllSchemaNames(
   operation: OperationObject,
-  spec: OpenApiSpec
+  spec: OpenApiSpec,
+  pathItem?: PathItemObject
 ): Set<string> {
   const names = new Set<string>();
+  // dereference된 스펙은 순환 구조를 가질 수 있으므로 방문한 스키마 기록
+  const visited = new Set<SchemaObject>();
 
   function collectRefs(schema: SchemaObject | undefined) {
-    if (!schema) return;
+    if (!schema || visited.has(schema)) return;
+    visited.add(schema);
+
+    const name = getSchemaName(schema, spec);
+    if (name) names.add(name);
 
     if (schema.$ref) {
-      const name = getRefName(schema.$ref);
-      if (!names.has(name)) {
-        names.add(name);
-        // 해당 스키마 내부의 참조도 수집
-        const resolvedSchema = spec.components?.schemas?.[name];
-        if (resolvedSchema) {
-          collectRefs(resolvedSchema);
-        }
+      // 해당 스키마 내부의 참조도 수집
+      const resolvedSchema = resolveRef(schema.$ref, spec);
+      if (resolvedSchema) {
+        collectRefs(resolvedSchema);
       }
     }
 
-    if (schema.items) collectRefs(schema.items);
+    if (typeof schema.items === "object") collectRefs(schema.items);
+    if (schema.prefixItems) schema.prefixItems.forEach(collectRefs);
     if (schema.properties) {
       Object.values(schema.properties).forEach(collectRefs);
     }
@@ -309,8 +1258,8 @@ export function extractAllSchemaNames(
     }
   }
 
-  // 파라미터에서 추출
-  operation.parameters?.forEach((param) => {
+  // 파라미터에서 추출 (path 레벨 파라미터 포함)
+  mergeParameters(pathItem?.parameters, operation.parameters).forEach((param) => {
     collectRefs(param.schema);
   });
 
@@ -0,0 +1,346 @@
+import type { FormatMapping } from "../config/loader.js";
+import type { OpenApiSpec, ResolvedFormatMapping, SchemaObject } from "./openapi.js";
+import {
+  createExpansionGuard,
+  getFormatMapping,
+  getSchemaName,
+  inferSchemaType,
+} from "./openapi.js";
+import { safePropertyKey, toSafeTypeName } from "../utils/formatting.js";
+
+/**
+ * 내장 reviver (매핑 타입 → __oprq__/revive의 함수 이름)
+ */
+const BUILTIN_REVIVERS: Record<string, string> = {
+  Date: "reviveDate",
+  bigint: "reviveBigInt",
+  number: "reviveNumber",
+  string: "reviveString",
+};
+
+/**
+ * plan 방향
+ * - response: 응답 JSON 값 → 매핑 타입 (writeOnly 프로퍼티 제외)
+ * - request: 매핑 타입 → 요청 JSON 값 (readOnly 프로퍼티 제외)
+ */
+export type RevivePlanDirection = "response" | "request";
+
+/**
+ * revive plan 생성 컨텍스트
+ */
+export interface RevivePlanContext {
+  formats: Record<string, FormatMapping>;
+  direction: RevivePlanDirection;
+  /** plan 상수로 참조한 컴포넌트 이름 (호출 측에서 선언해야 함) */
+  referencedNames: Set<string>;
+  /** 사용한 내장 reviver/serializer 함수 이름 */
+  builtinRevivers: Set<string>;
+  /** 사용자 reviver/serializer를 사용한 format (import 문 생성용) */
+  customFormats: Set<string>;
+  /** 컴포넌트별 변환 필요 여부 캐시 */
+  needsRevive?: Map<string, boolean>;
+}
+
+/**
+ * revive plan 컨텍스트 생성 (request면 요청 값을 JSON 값으로 되돌리는 serialize plan)
+ */
+export function createRevivePlanContext(
+  formats: Record<string, FormatMapping>,
+  direction: RevivePlanDirection = "response"
+): RevivePlanContext {
+  return {
+    formats,
+    direction,
+    referencedNames: new Set(),
+    builtinRevivers: new Set(),
+    customFormats: new Set(),
+  };
+}
+
+/**
+ * 컴포넌트 plan 상수 이름
+ * @example getRevivePlanName("Pet") => "PetRevive"
+ * @example getRevivePlanName("Pet", "request") => "PetSerialize"
+ */
+export function getRevivePlanName(name: string, direction: RevivePlanDirection = "response"): string {
+  return `${toSafeTypeName(name)}${direction === "request" ? "Serialize" : "Revive"}`;
+}
+
+/**
+ * 스키마의 format 값 변환 함수 이름 (변환할 필요가 없으면 undefined)
+ */
+function getConverter(
+  schema: SchemaObject,
+  formats: Record<string, FormatMapping>,
+  direction: RevivePlanDirection
+) {
+  if (schema.const !== undefined || schema.enum) return undefined;
+  if (!["string", "integer", "number"].includes(schema.type as string)) return undefined;
+  const mapping = getFormatMapping(schema, formats);
+  if (!mapping) return undefined;
+  return direction === "request" ? getSerializer(schema, mapping) : getReviver(schema, mapping);
+}
+
+/**
+ * 사용자 reviver가 없으면 JSON 값과 매핑 타입이 다를 때만 내장 reviver 사용
+ * (date-time → string, int64 → number 같은 매핑은 변환하지 않음)
+ */
+function getReviver(schema: SchemaObject, mapping: ResolvedFormatMapping) {
+  if (mapping.revive) return { name: mapping.revive, custom: true };
+
+  const jsonType = schema.type === "string" ? "string" : "number";
+  const name = Object.hasOwn(BUILTIN_REVIVERS, mapping.type) ? BUILTIN_REVIVERS[mapping.type] : undefined;
+  if (!name || mapping.type === jsonType) return undefined;
+  return { name, custom: false };
+}
+
+/**
+ * 요청 값을 스펙의 JSON 값으로 되돌리는 함수 (내장 reviver의 역변환)
+ * - Date: date → "YYYY-MM-DD", date-time 등 문자열 → ISO 문자열, 숫자 → epoch milliseconds
+ * - bigint: 문자열 (JSON.stringify는 bigint를 직렬화할 수 없고 number는 2^53을 넘으면 정밀도 손실)
+ * - number (decimal 등 문자열 format): 문자열, string (int64 등 숫자 format): 숫자
+ * 사용자 타입은 serialize 함수가 지정된 경우만 변환 (없으면 JSON.stringify에 맡김)
+ */
+function getSerializer(schema: SchemaObject, mapping: ResolvedFormatMapping) {
+  if (mapping.serialize) return { name: mapping.serialize, custom: true };
+
+  const jsonType = schema.type === "string" ? "string" : "number";
+  const name = (() => {
+    switch (mapping.type) {
+      case "Date":
+        if (jsonType === "number") return "serializeTimestamp";
+        return schema.format === "date" ? "serializeDateOnly" : "serializeDate";
+      case "bigint":
+        return "serializeString";
+      case "number":
+        return jsonType === "string" ? "serializeString" : undefined;
+      case "string":
+        return jsonType === "number" ? "serializeNumber" : undefined;
+      default:
+        return undefined;
+    }
+  })();
+  return name ? { name, custom: false } : undefined;
+}
+
+/**
+ * plan에 포함할 프로퍼티 (응답은 writeOnly, 요청은 readOnly 프로퍼티 제외)
+ */
+function includesProperty(prop: SchemaObject, direction: RevivePlanDirection): boolean {
+  return direction === "request" ? !prop.readOnly : !prop.writeOnly;
+}
+
+/**
+ * 응답 스키마를 revive plan 코드 문자열로 변환 (변환할 값이 없으면 undefined)
+ * 변환할 값이 없는 하위 스키마는 plan에서 제외하므로 필요한 경로만 복사/변환됨
+ * 컴포넌트는 { ref: () => PetRevive }로 참조하므로 순환 참조 모델도 그대로 표현됨
+ *
+ * @example { properties: { createdAt: { revive: reviveDate } } }
+ */
+export function schemaToRevivePlan(
+  schema: SchemaObject | undefined,
+  spec: OpenApiSpec,
+  context: RevivePlanContext
+): string | undefined {
+  if (!schema) return undefined;
+
+  const name = getSchemaName(schema, spec);
+  if (name) {
+    if (!componentNeedsRevive(name, spec, context)) return undefined;
+    context.referencedNames.add(name);
+    return `{ ref: () => ${getRevivePlanName(name, context.direction)} }`;
+  }
+
+  return schemaToInlineRevivePlan(schema, spec, context);
+}
+
+const guardPlanExpansion = createExpansionGuard();
+
+/**
+ * 스키마 자체를 인라인 revive plan으로 변환 (하위 스키마는 schemaToRevivePlan 규칙을 따름)
+ * 이름 없는 순환 참조는 타입 생성 규칙(unknown)과 같이 변환하지 않음
+ */
+export function schemaToInlineRevivePlan(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  context: RevivePlanContext
+): string | undefined {
+  return guardPlanExpansion(schema, undefined, () => expandInlineRevivePlan(schema, spec, context));
+}
+
+function expandInlineRevivePlan(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  context: RevivePlanContext
+): string | undefined {
+  if (schema.$ref) return undefined;
+
+  // allOf/oneOf/anyOf: 멤버 plan을 차례로 적용 (값과 맞지 않는 멤버 plan은 적용되어도 변화 없음)
+  const members = schema.allOf ?? schema.oneOf ?? schema.anyOf;
+  if (members) {
+    return combinePlans(members.map((member) => schemaToRevivePlan(member, spec, context)));
+  }
+
+  if (schema.const !== undefined || schema.enum) return undefined;
+
+  // type 배열 (3.1): 각 타입의 plan을 합침
+  if (Array.isArray(schema.type)) {
+    return combinePlans(
+      schema.type.map((type) => schemaToInlineRevivePlan({ ...schema, type }, spec, context))
+    );
+  }
+
+  switch (schema.type ?? inferSchemaType(schema)) {
+    case "string":
+    case "integer":
+    case "number": {
+      const reviver = getConverter(schema, context.formats, context.direction);
+      if (!reviver) return undefined;
+      if (reviver.custom) {
+        context.customFormats.add(schema.format!);
+      } else {
+        context.builtinRevivers.add(reviver.name);
+      }
+      return `{ revive: ${reviver.name} }`;
+    }
+
+    case "array": {
+      // 튜플 (3.1 prefixItems)은 변환하지 않음
+      if (schema.prefixItems || typeof schema.items !== "object") return undefined;
+      const items = schemaToRevivePlan(schema.items, spec, context);
+      return items && `{ items: ${items} }`;
+    }
+
+    case "object": {
+      // properties가 있으면 additionalProperties는 무시 (타입 생성 규칙과 동일)
+      if (!schema.properties) {
+        if (typeof schema.additionalProperties !== "object") return undefined;
+        const values = schemaToRevivePlan(schema.additionalProperties, spec, context);
+        return values && `{ values: ${values} }`;
+      }
+      const properties = Object.entries(schema.properties)
+        .filter(([, prop]) => includesProperty(prop, context.direction))
+        .map(([key, prop]) => {
+          const plan = schemaToRevivePlan(prop, spec, context);
+          return plan && `${safePropertyKey(key)}: ${plan}`;
+        })
+        .filter(Boolean);
+      return properties.length > 0 ? `{ properties: { ${properties.join(", ")} } }` : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 여러 plan을 하나로 합침 (undefined 제외, 하나면 그대로)
+ */
+function combinePlans(plans: Array<string | undefined>): string | undefined {
+  const unique = Array.from(new Set(plans.filter((plan): plan is string => plan !== undefined)));
+  if (unique.length === 0) return undefined;
+  if (unique.length === 1) return unique[0];
+  return `{ all: [${unique.join(", ")}] }`;
+}
+
+/**
+ * 컴포넌트가 (참조하는 컴포넌트 포함) 변환할 값을 가지는지 확인
+ * 참조 그래프를 따라가므로 순환 참조 모델도 정확히 판단됨
+ */
+function componentNeedsRevive(name: string, spec: OpenApiSpec, context: RevivePlanContext): boolean {
+  context.needsRevive ??= new Map();
+  const cached = context.needsRevive.get(name);
+  if (cached !== undefined) return cached;
+
+  const visited = new Set([name]);
+  const queue = [name];
+  let result = false;
+  while (queue.length > 0 && !result) {
+    const schema = spec.components?.schemas?.[queue.shift()!];
+    if (!schema) continue;
+    const { revives, components } = scanSchema(schema, spec, context);
+    result = revives;
+    components.forEach((component) => {
+      if (visited.has(component)) return;
+      const known = context.needsRevive!.get(component);
+      if (known) result = true;
+      if (known !== undefined) return;
+      visited.add(component);
+      queue.push(component);
+    });
+  }
+
+  context.needsRevive.set(name, result);
+  return result;
+}
+
+/**
+ * 컴포넌트 경계를 넘지 않고 스키마를 탐색해 변환할 값 여부와 참조 컴포넌트 수집
+ */
+function scanSchema(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  context: Pick<RevivePlanContext, "formats" | "direction">,
+  result = { revives: false, components: new Set<string>() },
+  isRoot = true,
+  visited = new Set<SchemaObject>()
+): { revives: boolean; components: Set<string> } {
+  // 이름 없는 순환 참조 (3.1 $defs 자기 참조 등)
+  if (visited.has(schema)) return result;
+  visited.add(schema);
+
+  const name = isRoot ? undefined : getSchemaName(schema, spec);
+  if (name) {
+    result.components.add(name);
+    return result;
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.some((type) => getConverter({ ...schema, type }, context.formats, context.direction))) {
+    result.revives = true;
+  }
+
+  const children = [
+    ...(schema.allOf ?? schema.oneOf ?? schema.anyOf ?? []),
+    ...Object.values(schema.properties ?? {}).filter((prop) =>
+      includesProperty(prop, context.direction)
+    ),
+    typeof schema.items === "object" && !schema.prefixItems ? schema.items : undefined,
+    typeof schema.additionalProperties === "object" && !schema.properties
+      ? schema.additionalProperties
+      : undefined,
+  ];
+  children.forEach((child) => {
+    if (child) scanSchema(child, spec, context, result, false, visited);
+  });
+  return result;
+}
+
+/**
+ * 참조된 컴포넌트의 revive plan 상수 선언 생성 (참조를 따라가며 필요한 plan을 모두 선언)
+ * plan은 ref 함수로 지연 참조하므로 선언 순서와 무관
+ *
+ * @example const PetRevive: RevivePlan = { properties: { createdAt: { revive: reviveDate } } };
+ */
+export function generateRevivePlanDefinitions(
+  spec: OpenApiSpec,
+  context: RevivePlanContext
+): string[] {
+  const declared = new Set<string>();
+  const definitions: string[] = [];
+
+  let pending = Array.from(context.referencedNames).sort();
+  while (pending.length > 0) {
+    pending.forEach((name) => {
+      declared.add(name);
+      const schema = spec.components?.schemas?.[name];
+      const plan = (schema && schemaToInlineRevivePlan(schema, spec, context)) ?? "{}";
+      definitions.push(`const ${getRevivePlanName(name, context.direction)}: RevivePlan = ${plan};`);
+    });
+    pending = Array.from(context.referencedNames)
+      .filter((name) => !declared.has(name))
+      .sort();
+  }
+
+  return definitions;
+}
@@ -0,0 +1,433 @@
+import { HTTP_METHODS } from "../constants/index.js";
+
+/**
+ * Swagger 2.0 → OpenAPI 3.0 변환
+ * dereference 이전의 원본 문서를 변환하여
+ * 이후 파이프라인(dereference, 코드 생성)이 3.x 스펙과 동일하게 동작하도록 함
+ *
+ * - definitions → components.schemas
+ * - body/formData 파라미터 → requestBody
+ * - produces/consumes → content
+ * - host/basePath/schemes → servers
+ * - securityDefinitions → components.securitySchemes
+ */
+
+type JsonObject = Record<string, any>;
+
+const DEFAULT_MEDIA_TYPE = "application/json";
+
+/**
+ * Swagger 2.0 문서 여부 확인
+ */
+export function isSwagger2(document: unknown): boolean {
+  return (
+    typeof document === "object" &&
+    document !== null &&
+    typeof (document as JsonObject).swagger === "string" &&
+    (document as JsonObject).swagger.startsWith("2.")
+  );
+}
+
+/**
+ * Swagger 2.0 문서를 OpenAPI 3.0 문서로 변환
+ */
+export function convertSwagger2ToOpenApi3(document: JsonObject): JsonObject {
+  const globalConsumes: string[] = document.consumes || [DEFAULT_MEDIA_TYPE];
+  const globalProduces: string[] = document.produces || [DEFAULT_MEDIA_TYPE];
+
+  const paths: JsonObject = {};
+  for (const [apiPath, pathItem] of Object.entries<JsonObject>(document.paths || {})) {
+    paths[apiPath] = convertPathItem(pathItem, document, globalConsumes, globalProduces);
+  }
+
+  const components: JsonObject = {};
+
+  if (document.definitions) {
+    components.schemas = mapValues(document.definitions, (schema) =>
+      convertSchema(schema)
+    );
+  }
+
+  if (document.responses) {
+    components.responses = mapValues(document.responses, (response) =>
+      convertResponse(response, globalProduces)
+    );
+  }
+
+  if (document.securityDefinitions) {
+    components.securitySchemes = mapValues(
+      document.securityDefinitions,
+      convertSecurityScheme
+    );
+  }
+
+  return omitUndefined({
+    openapi: "3.0.3",
+    info: document.info,
+    servers: convertServers(document),
+    paths,
+    components: Object.keys(components).length > 0 ? components : undefined,
+    security: document.security,
+    tags: document.tags,
+    externalDocs: document.externalDocs,
+  });
+}
+
+/**
+ * host/basePath/schemes → servers
+ */
+function convertServers(document: JsonObject): JsonObject[] | undefined {
+  if (!document.host && !document.basePath) return undefined;
+
+  const basePath = document.basePath || "";
+  if (!document.host) {
+    return [{ url: basePath }];
+  }
+
+  const schemes: string[] = document.schemes?.length ? document.schemes : ["https"];
+  return schemes.map((scheme) => ({ url: `${scheme}://${document.host}${basePath}` }));
+}
+
+/**
+ * Path Item 변환
+ * body/formData 파라미터는 path 레벨에 있어도 각 operation의 requestBody로 이동
+ */
+function convertPathItem(
+  pathItem: JsonObject,
+  document: JsonObject,
+  globalConsumes: string[],
+  globalProduces: string[]
+): JsonObject {
+  const pathParams: JsonObject[] = (pathItem.parameters || []).map((param: JsonObject) =>
+    resolveParameter(param, document)
+  );
+  const pathBodyParams = pathParams.filter(isBodyParameter);
+  const pathOtherParams = pathParams.filter((param) => !isBodyParameter(param));
+
+  const result: JsonObject = {};
+
+  if (pathItem.summary) result.summary = pathItem.summary;
+  if (pathItem.description) result.description = pathItem.description;
+  if (pathOtherParams.length > 0) {
+    result.parameters = pathOtherParams.map(convertParameter);
+  }
+
+  for (const method of HTTP_METHODS) {
+    const operation = pathItem[method] as JsonObject | undefined;
+    if (!operation) continue;
+
+    const operationParams: JsonObject[] = (operation.parameters || []).map(
+      (param: JsonObject) => resolveParameter(param, document)
+    );
+
+    // path 레벨 body/formData 파라미터 중 operation에서 재정의하지 않은 것만 병합
+    const inheritedBodyParams = pathBodyParams.filter(
+      (param) =>
+        !operationParams.some((p) => p.name === param.name && p.in === param.in)
+    );
+
+    result[method] = convertOperation(
+      operation,
+      [...inheritedBodyParams, ...operationParams],
+      operation.consumes || globalConsumes,
+      operation.produces || globalProduces
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Operation 변환
+ */
+function convertOperation(
+  operation: JsonObject,
+  parameters: JsonObject[],
+  consumes: string[],
+  produces: string[]
+): JsonObject {
+  const bodyParam = parameters.find((param) => param.in === "body");
+  const formParams = parameters.filter((param) => param.in === "formData");
+  const otherParams = parameters.filter((param) => !isBodyParameter(param));
+
+  let requestBody: JsonObject | undefined;
+  if (bodyParam) {
+    requestBody = convertBodyParameter(bodyParam, consumes);
+  } else if (formParams.length > 0) {
+    requestBody = convertFormDataParameters(formParams, consumes);
+  }
+
+  return omitUndefined({
+    operationId: operation.operationId,
+    summary: operation.summary,
+    description: operation.description,
+    tags: operation.tags,
+    deprecated: operation.deprecated,
+    security: operation.security,
+    externalDocs: operation.externalDocs,
+    parameters: otherParams.length > 0 ? otherParams.map(convertParameter) : undefined,
+    requestBody,
+    responses: mapValues(operation.responses || {}, (response) =>
+      convertResponse(response, produces)
+    ),
+  });
+}
+
+/**
+ * in: body 파라미터 → requestBody
+ */
+function convertBodyParameter(param: JsonObject, consumes: string[]): JsonObject {
+  const schema = convertSchema(param.schema || {});
+  const mediaTypes = consumes.filter((type) => !isFormMediaType(type));
+
+  return omitUndefined({
+    description: param.description,
+    required: param.required,
+    content: Object.fromEntries(
+      (mediaTypes.length > 0 ? mediaTypes : [DEFAULT_MEDIA_TYPE]).map((type) => [
+        type,
+        { schema },
+      ])
+    ),
+  });
+}
+
+/**
+ * in: formData 파라미터들 → requestBody (multipart/form-data 또는 x-www-form-urlencoded)
+ */
+function convertFormDataParameters(params: JsonObject[], consumes: string[]): JsonObject {
+  const hasFile = params.some((param) => param.type === "file");
+  const formTypes = consumes.filter(isFormMediaType);
+  const mediaTypes =
+    formTypes.length > 0
+      ? formTypes
+      : [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+
+  const properties: JsonObject = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    properties[param.name] = omitUndefined({
+      ...convertSchema(pickSchemaFields(param)),
+      description: param.description,
+    });
+    if (param.required) required.push(param.name);
+  }
+
+  const schema = omitUndefined({
+    type: "object",
+    properties,
+    required: required.length > 0 ? required : undefined,
+  });
+
+  return {
+    required: required.length > 0,
+    content: Object.fromEntries(mediaTypes.map((type) => [type, { schema }])),
+  };
+}
+
+/**
+ * path/query/header 파라미터 변환
+ * collectionFormat → style/explode
+ */
+function convertParameter(param: JsonObject): JsonObject {
+  return omitUndefined({
+    name: param.name,
+    in: param.in,
+    description: param.description,
+    required: param.in === "path" ? true : param.required,
+    deprecated: param.deprecated,
+    allowEmptyValue: param.allowEmptyValue,
+    schema: convertSchema(pickSchemaFields(param)),
+    ...convertCollectionFormat(param),
+  });
+}
+
+function convertCollectionFormat(param: JsonObject): JsonObject {
+  if (param.type !== "array") return {};
+
+  switch (param.collectionFormat) {
+    case "multi":
+      return { style: "form", explode: true };
+    case "ssv":
+      return { style: "spaceDelimited", explode: false };
+    case "pipes":
+      return { style: "pipeDelimited", explode: false };
+    case "tsv":
+      // OpenAPI 3에 대응되는 style이 없으므로 csv로 대체
+    case "csv":
+    default:
+      return param.in === "query" || param.in === "cookie"
+        ? { style: "form", explode: false }
+        : { style: "simple", explode: false };
+  }
+}
+
+/**
+ * 응답 변환 (schema → content)
+ */
+function convertResponse(response: JsonObject, produces: string[]): JsonObject {
+  if (response.$ref) {
+    return { $ref: convertRef(response.$ref) };
+  }
+
+  const result: JsonObject = { description: response.description ?? "" };
+
+  if (response.schema) {
+    const schema = convertSchema(response.schema);
+    result.content = Object.fromEntries(produces.map((type) => [type, { schema }]));
+  }
+
+  if (response.headers) {
+    result.headers = mapValues(response.headers, (header) =>
+      omitUndefined({
+        description: header.description,
+        schema: convertSchema(pickSchemaFields(header)),
+      })
+    );
+  }
+
+  return result;
+}
+
+/**
+ * securityDefinitions → securitySchemes
+ */
+function convertSecurityScheme(scheme: JsonObject): JsonObject {
+  switch (scheme.type) {
+    case "basic":
+      return omitUndefined({ type: "http", scheme: "basic", description: scheme.description });
+    case "apiKey":
+      return omitUndefined({
+        type: "apiKey",
+        name: scheme.name,
+        in: scheme.in,
+        description: scheme.description,
+      });
+    case "oauth2": {
+      const flowName =
+        scheme.flow === "application"
+          ? "clientCredentials"
+          : scheme.flow === "accessCode"
+          ? "authorizationCode"
+          : scheme.flow;
+      return omitUndefined({
+        type: "oauth2",
+        description: scheme.description,
+        flows: {
+          [flowName]: omitUndefined({
+            authorizationUrl: scheme.authorizationUrl,
+            tokenUrl: scheme.tokenUrl,
+            scopes: scheme.scopes || {},
+          }),
+        },
+      });
+    }
+    default:
+      return scheme;
+  }
+}
+
+/**
+ * 스키마 변환 (재귀)
+ * - $ref 경로 변경 (#/definitions/ → #/components/schemas/)
+ * - type: file → string/binary
+ * - x-nullable → nullable
+ * - discriminator 문자열 → { propertyName }
+ */
+function convertSchema(schema: JsonObject): JsonObject {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => convertSchema(item)) as unknown as JsonObject;
+  }
+  if (typeof schema !== "object" || schema === null) {
+    return schema;
+  }
+
+  const result: JsonObject = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "$ref" && typeof value === "string") {
+      result.$ref = convertRef(value);
+    } else if (key === "x-nullable") {
+      result.nullable = value;
+    } else if (key === "discriminator" && typeof value === "string") {
+      result.discriminator = { propertyName: value };
+    } else if (key === "properties" || key === "definitions") {
+      result[key] = mapValues(value, (prop) => convertSchema(prop));
+    } else if (typeof value === "object" && value !== null && key !== "example" && key !== "enum" && key !== "default") {
+      result[key] = convertSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (result.type === "file") {
+    result.type = "string";
+    result.format = "binary";
+  }
+
+  return result;
+}
+
+/**
+ * 로컬 $ref 경로 변환
+ */
+function convertRef(ref: string): string {
+  return ref
+    .replace(/^#\/definitions\//, "#/components/schemas/")
+    .replace(/^#\/responses\//, "#/components/responses/")
+    .replace(/^#\/parameters\//, "#/components/parameters/");
+}
+
+/**
+ * #/parameters/X 참조를 실제 파라미터로 해석
+ */
+function resolveParameter(param: JsonObject, document: JsonObject): JsonObject {
+  if (!param.$ref) return param;
+
+  const name = param.$ref.replace(/^#\/parameters\//, "");
+  const resolved = document.parameters?.[name];
+  if (!resolved) {
+    throw new Error(`Cannot resolve parameter reference: ${param.$ref}`);
+  }
+  return resolved;
+}
+
+/**
+ * 2.0 non-body 파라미터에서 스키마 관련 필드만 추출
+ */
+function pickSchemaFields(param: JsonObject): JsonObject {
+  const {
+    name: _name,
+    in: _in,
+    description: _description,
+    required: _required,
+    allowEmptyValue: _allowEmptyValue,
+    collectionFormat: _collectionFormat,
+    ...schema
+  } = param;
+  return schema;
+}
+
+function isBodyParameter(param: JsonObject): boolean {
+  return param.in === "body" || param.in === "formData";
+}
+
+function isFormMediaType(type: string): boolean {
+  return type === "multipart/form-data" || type === "application/x-www-form-urlencoded";
+}
+
+function mapValues(
+  object: JsonObject,
+  fn: (value: JsonObject) => JsonObject
+): JsonObject {
+  return Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [key, fn(value)])
+  );
+}
+
+function omitUndefined(object: JsonObject): JsonObject {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  );
+}
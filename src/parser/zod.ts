@@ -0,0 +1,336 @@
+import type {
+  OpenApiSpec,
+  ResolvedFormatMapping,
+  SchemaObject,
+  TypeStringOptions,
+} from "./openapi.js";
+import {
+  createExpansionGuard,
+  getComponentTypeNames,
+  getFormatMapping,
+  getSchemaName,
+  getSchemaTypeName,
+  getReferenceTypeName,
+  getDiscriminatorMembers,
+  inferSchemaType,
+  isBinaryMediaType,
+} from "./openapi.js";
+import { safePropertyKey, toSafeTypeName } from "../utils/formatting.js";
+
+/**
+ * string format별 zod 검증 메서드 (그 외 format은 검증 없이 z.string())
+ */
+const STRING_FORMATS: Record<string, string> = {
+  email: ".email()",
+  uuid: ".uuid()",
+  uri: ".url()",
+  url: ".url()",
+  "date-time": ".datetime({ offset: true })",
+  date: ".date()",
+  time: ".time()",
+  ipv4: '.ip({ version: "v4" })',
+  ipv6: '.ip({ version: "v6" })',
+};
+
+/**
+ * 컴포넌트 zod 스키마 상수 이름
+ * 이름이 다른 컴포넌트 이름과 겹치면 Zod를 붙임 (Pet + PetSchema 컴포넌트 → PetZodSchema)
+ * @example getZodSchemaName("Pet", spec) => "PetSchema"
+ */
+export function getZodSchemaName(typeName: string, spec: OpenApiSpec): string {
+  const componentTypeNames = getComponentTypeNames(spec);
+  let baseName = typeName;
+  while (componentTypeNames.has(`${baseName}Schema`)) baseName = `${baseName}Zod`;
+  return `${baseName}Schema`;
+}
+
+/**
+ * 스키마를 zod 스키마 코드 문자열로 변환 (zod v3)
+ * schemaToTypeString과 같은 규칙으로 변환하므로 출력 타입이 생성된 TS 타입과 일치
+ * 컴포넌트 스키마는 항상 z.lazy(() => PetSchema)로 참조 (선언 순서, 순환 참조와 무관)
+ * 참조한 타입 이름은 options.referencedNames에 수집되므로 호출 측에서 선언해야 함
+ */
+export function schemaToZodString(
+  schema: SchemaObject | undefined,
+  spec: OpenApiSpec,
+  options: TypeStringOptions = {}
+): string {
+  if (!schema) return "z.unknown()";
+
+  const name = getSchemaName(schema, spec);
+  if (name) {
+    const typeName = getSchemaTypeName(name, spec, options.access);
+    options.referencedNames?.add(typeName);
+    return `z.lazy(() => ${getZodSchemaName(getReferenceTypeName(typeName, options), spec)})`;
+  }
+
+  return schemaToInlineZodString(schema, spec, options);
+}
+
+const guardZodExpansion = createExpansionGuard();
+
+/**
+ * 스키마 자체를 인라인 zod 스키마로 변환 (하위 스키마는 schemaToZodString 규칙을 따름)
+ * 이름 없는 순환 참조는 타입 생성 규칙과 같이 z.unknown()
+ * nullable은 타입 생성 규칙과 같이 스키마가 쓰인 위치와 무관하게 적용
+ */
+export function schemaToInlineZodString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  options: TypeStringOptions = {}
+): string {
+  const zod = guardZodExpansion(schema, "z.unknown()", () =>
+    expandInlineZodString(schema, spec, options)
+  );
+  return schema.nullable ? `${zod}.nullable()` : zod;
+}
+
+function expandInlineZodString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  options: TypeStringOptions
+): string {
+  // 해석할 수 없는 $ref
+  if (schema.$ref) {
+    return "z.unknown()";
+  }
+
+  // allOf: intersection
+  if (schema.allOf) {
+    return schema.allOf
+      .map((s) => schemaToZodString(s, spec, options))
+      .reduce((result, item) => `${result}.and(${item})`);
+  }
+
+  // discriminator가 있는 oneOf/anyOf: 멤버마다 리터럴 태그를 검증하는 union
+  if (schema.discriminator && (schema.oneOf || schema.anyOf)) {
+    const key = safePropertyKey(schema.discriminator.propertyName);
+    return toZodUnion(
+      getDiscriminatorMembers(schema, spec).map((member) => {
+        const zod = schemaToZodString(member.schema, spec, options);
+        if (member.tags.length === 0) return zod;
+        const tag = toZodUnion(member.tags.map(toZodLiteral));
+        return `${zod}.and(z.object({ ${key}: ${tag} }))`;
+      })
+    );
+  }
+
+  // oneOf/anyOf: union
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return toZodUnion(variants.map((s) => schemaToZodString(s, spec, options)));
+  }
+
+  // const (3.1): 단일 리터럴
+  if (schema.const !== undefined) {
+    return toZodLiteral(schema.const);
+  }
+
+  // enum: 문자열만 있으면 z.enum, 그 외에는 리터럴 union
+  if (schema.enum) {
+    return schema.enum.length > 0 && schema.enum.every((value) => typeof value === "string")
+      ? `z.enum([${schema.enum.map((value) => JSON.stringify(value)).join(", ")}])`
+      : toZodUnion(schema.enum.map(toZodLiteral));
+  }
+
+  // type 배열 (3.1): 각 타입의 union (예: ["string", "null"] => z.union([z.string(), z.null()]))
+  if (Array.isArray(schema.type)) {
+    return toZodUnion(
+      schema.type.map((type) =>
+        schemaToInlineZodString({ ...schema, type, nullable: false }, spec, options)
+      )
+    );
+  }
+
+  switch (schema.type ?? inferSchemaType(schema)) {
+    case "null":
+      return "z.null()";
+
+    case "string":
+      if (schema.format === "binary" || isBinaryMediaType(schema)) {
+        return "z.instanceof(Blob)";
+      }
+      return applyFormatMapping(schema, options) ?? `z.string()${getStringChecks(schema)}`;
+
+    case "integer":
+      return applyFormatMapping(schema, options) ?? `z.number().int()${getNumberChecks(schema)}`;
+
+    case "number":
+      return applyFormatMapping(schema, options) ?? `z.number()${getNumberChecks(schema)}`;
+
+    case "boolean":
+      return "z.boolean()";
+
+    case "array": {
+      if (schema.prefixItems) {
+        return tupleToZodString(schema, spec, options);
+      }
+      const itemZod =
+        typeof schema.items === "object"
+          ? schemaToZodString(schema.items, spec, options)
+          : "z.unknown()";
+      const checks = [
+        schema.minItems !== undefined && `.min(${schema.minItems})`,
+        schema.maxItems !== undefined && `.max(${schema.maxItems})`,
+      ];
+      return `z.array(${itemZod})${checks.filter(Boolean).join("")}`;
+    }
+
+    case "object":
+      if (!schema.properties) {
+        const valueZod =
+          typeof schema.additionalProperties === "object"
+            ? schemaToZodString(schema.additionalProperties, spec, options)
+            : "z.unknown()";
+        return `z.record(z.string(), ${valueZod})`;
+      }
+      return `z.object({ ${schemaPropertiesToZodLines(schema, spec, options).join(", ")} })`;
+
+    default:
+      return "z.unknown()";
+  }
+}
+
+/**
+ * format 매핑 타입의 zod 스키마 (응답은 검증 전에 revive되므로 변환된 값을 검증)
+ * - Date/bigint/number/string: 해당 타입 스키마
+ * - 그 외 (브랜드 타입 등): z.custom<타입>()으로 검증 없이 통과
+ */
+function applyFormatMapping(schema: SchemaObject, options: TypeStringOptions): string | undefined {
+  const mapping = getFormatMapping(schema, options.formats);
+  if (!mapping) return undefined;
+  options.usedFormats?.add(schema.format!);
+  return formatMappingToZod(mapping, schema);
+}
+
+function formatMappingToZod(mapping: ResolvedFormatMapping, schema: SchemaObject): string {
+  switch (mapping.type) {
+    case "Date":
+      return "z.date()";
+    case "bigint":
+      return "z.bigint()";
+    case "number":
+      return `z.number()${schema.type === "integer" ? ".int()" : ""}${getNumberChecks(schema)}`;
+    case "string":
+      return `z.string()${schema.type === "string" ? getStringChecks(schema) : ""}`;
+    default:
+      return `z.custom<${mapping.type}>()`;
+  }
+}
+
+/**
+ * minLength/maxLength/pattern/format 검증 체인
+ */
+function getStringChecks(schema: SchemaObject): string {
+  return [
+    schema.format && Object.hasOwn(STRING_FORMATS, schema.format) && STRING_FORMATS[schema.format],
+    schema.minLength !== undefined && `.min(${schema.minLength})`,
+    schema.maxLength !== undefined && `.max(${schema.maxLength})`,
+    schema.pattern !== undefined && `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`,
+  ]
+    .filter(Boolean)
+    .join("");
+}
+
+/**
+ * minimum/maximum/exclusiveMinimum/exclusiveMaximum/multipleOf 검증 체인
+ * exclusiveMinimum/exclusiveMaximum은 3.0(boolean)과 3.1(number) 형식 모두 지원
+ */
+function getNumberChecks(schema: SchemaObject): string {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+  return [
+    typeof exclusiveMinimum === "number" && `.gt(${exclusiveMinimum})`,
+    minimum !== undefined && (exclusiveMinimum === true ? `.gt(${minimum})` : `.min(${minimum})`),
+    typeof exclusiveMaximum === "number" && `.lt(${exclusiveMaximum})`,
+    maximum !== undefined && (exclusiveMaximum === true ? `.lt(${maximum})` : `.max(${maximum})`),
+    multipleOf !== undefined && `.multipleOf(${multipleOf})`,
+  ]
+    .filter(Boolean)
+    .join("");
+}
+
+/**
+ * prefixItems 튜플 스키마 생성 (tupleToTypeString과 같은 규칙)
+ */
+function tupleToZodString(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  options: TypeStringOptions
+): string {
+  const prefixItems = schema.prefixItems ?? [];
+  const requiredCount = schema.minItems ?? prefixItems.length;
+
+  const elements = prefixItems.map((item, index) => {
+    const zod = schemaToZodString(item, spec, options);
+    return index < requiredCount ? zod : `${zod}.optional()`;
+  });
+  const tuple = `z.tuple([${elements.join(", ")}])`;
+
+  if (schema.items === false || schema.maxItems === prefixItems.length) {
+    return tuple;
+  }
+
+  const restZod =
+    typeof schema.items === "object"
+      ? schemaToZodString(schema.items, spec, options)
+      : "z.unknown()";
+  return `${tuple}.rest(${restZod})`;
+}
+
+/**
+ * 객체 스키마의 프로퍼티를 `key: z...` 형태의 문자열 목록으로 변환
+ */
+function schemaPropertiesToZodLines(
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  options: TypeStringOptions
+): string[] {
+  return Object.entries(schema.properties ?? {})
+    .filter(([, prop]) => {
+      // 요청 스키마에서는 readOnly, 응답 스키마에서는 writeOnly 프로퍼티 제외
+      if (options.access === "write" && prop.readOnly) return false;
+      if (options.access === "read" && prop.writeOnly) return false;
+      return true;
+    })
+    .map(([key, prop]) => {
+      const optional = !schema.required?.includes(key) ? ".optional()" : "";
+      return `${safePropertyKey(key)}: ${schemaToZodString(prop, spec, options)}${optional}`;
+    });
+}
+
+/**
+ * JSON 값을 zod 리터럴 스키마로 변환 (객체/배열 값은 z.unknown())
+ */
+function toZodLiteral(value: unknown): string {
+  if (value === null) return "z.null()";
+  if (["string", "number", "boolean"].includes(typeof value)) {
+    return `z.literal(${JSON.stringify(value)})`;
+  }
+  return "z.unknown()";
+}
+
+/**
+ * zod 스키마 목록을 union으로 합침 (중복 제거, 하나면 그대로)
+ */
+function toZodUnion(items: string[]): string {
+  const unique = Array.from(new Set(items));
+  if (unique.length === 0) return "z.never()";
+  if (unique.length === 1) return unique[0];
+  return `z.union([${unique.join(", ")}])`;
+}
+
+/**
+ * 스키마를 zod 스키마 선언으로 생성
+ * z.ZodType<타입>으로 선언하므로 zod 스키마와 TS 타입이 다르면 컴파일 에러
+ * @example export const PetSchema: z.ZodType<Pet> = z.object({ ... });
+ */
+export function generateZodDefinition(
+  name: string,
+  schema: SchemaObject,
+  spec: OpenApiSpec,
+  options: TypeStringOptions = {}
+): string {
+  const typeName = toSafeTypeName(name);
+  const zod = schemaToInlineZodString(schema, spec, options);
+  return `export const ${getZodSchemaName(typeName, spec)}: z.ZodType<${typeName}> = ${zod};`;
+}
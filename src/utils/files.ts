@@ -89,3 +89,22 @@ export async function removeFileSafe(filePath: string): Promise<boolean> {
     throw error;
   }
 }
+
+/**
+ * 디렉토리에서 유지할 파일 외의 .ts 파일 삭제 (디렉토리가 없어도 에러 없음)
+ * 스펙에서 사라지거나 이름이 바뀐 스키마의 생성 파일 정리용
+ * @returns 삭제된 파일 경로 목록
+ */
+export async function removeStaleFiles(dirPath: string, keepPaths: string[]): Promise<string[]> {
+  if (!(await directoryExists(dirPath))) return [];
+
+  const keep = new Set(keepPaths.map((filePath) => path.resolve(filePath)));
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  const stale = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".ts"))
+    .map((entry) => path.join(dirPath, entry.name))
+    .filter((filePath) => !keep.has(path.resolve(filePath)));
+
+  await Promise.all(stale.map((filePath) => removeFileSafe(filePath)));
+  return stale;
+}
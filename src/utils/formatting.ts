@@ -1,5 +1,24 @@
 import { PATTERNS } from "../constants/index.js";
 
+/**
+ * 변수/함수/타입 이름으로 쓸 수 없는 예약어 (strict mode 모듈 기준)
+ */
+const RESERVED_WORDS: ReadonlySet<string> = new Set([
+  "arguments", "await", "break", "case", "catch", "class", "const", "continue", "debugger",
+  "default", "delete", "do", "else", "enum", "eval", "export", "extends", "false", "finally",
+  "for", "function", "if", "implements", "import", "in", "instanceof", "interface", "let",
+  "new", "null", "package", "private", "protected", "public", "return", "static", "super",
+  "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with", "yield",
+]);
+
+/**
+ * 타입 이름으로 쓸 수 없는 내장 타입 이름
+ */
+const RESERVED_TYPE_NAMES: ReadonlySet<string> = new Set([
+  "any", "bigint", "boolean", "never", "number", "object", "string", "symbol", "undefined",
+  "unknown",
+]);
+
 /**
  * 문자열을 PascalCase로 변환
  * @example "get_user_by_id" => "GetUserById"
@@ -30,10 +49,104 @@ export function isValidTsIdentifier(str: string): boolean {
 
 /**
  * 객체 키를 안전한 문자열로 변환
- * 특수문자가 있으면 따옴표로 감싸기
+ * 특수문자가 있으면 문자열 리터럴로 (따옴표, 백슬래시 등 이스케이프)
+ * __proto__는 객체 리터럴에서 프로토타입을 바꾸므로 계산된 키로 선언
  */
 export function safePropertyKey(key: string): string {
-  return isValidTsIdentifier(key) ? key : `"${key}"`;
+  if (key === "__proto__") return `[${toStringLiteral(key)}]`;
+  return isValidTsIdentifier(key) ? key : toStringLiteral(key);
+}
+
+/**
+ * 문자열을 생성 코드의 문자열 리터럴로 변환 (따옴표, 백슬래시, 줄바꿈 등 이스케이프)
+ * @example toStringLiteral('a "b"') => '"a \\"b\\""'
+ */
+export function toStringLiteral(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * 스펙의 텍스트를 주석 안에 넣을 한 줄로 변환
+ * 주석을 닫는 문자열은 이스케이프하고, 줄바꿈(U+2028/U+2029 포함)은 공백으로 치환
+ */
+export function escapeComment(text: string): string {
+  return text.replace(/\*\//g, "*\\/").replace(/\s*[\r\n\u2028\u2029]+\s*/g, " ");
+}
+
+/**
+ * 문자열을 유효한 변수/함수 이름으로 변환
+ * 유효하지 않은 문자는 _로 치환하고, 숫자로 시작하거나 예약어면 _ 접두사
+ * @example "pet.get" => "pet_get", "delete" => "_delete", "2fa" => "_2fa"
+ */
+export function toSafeIdentifier(name: string): string {
+  const safe = name.replace(/[^a-zA-Z0-9_$]/g, "_") || "_";
+  return /^[0-9]/.test(safe) || RESERVED_WORDS.has(safe) ? `_${safe}` : safe;
+}
+
+/**
+ * 스키마 이름을 유효한 TypeScript 타입 이름으로 변환 (내장 타입 이름도 _ 접두사)
+ * @example "Pet.Dto" => "Pet_Dto", "string" => "_string"
+ */
+export function toSafeTypeName(name: string): string {
+  const safe = toSafeIdentifier(name);
+  return RESERVED_TYPE_NAMES.has(safe) ? `_${safe}` : safe;
+}
+
+/**
+ * 스펙의 operationId를 함수 이름으로 변환 (이름으로 쓸 글자가 없으면 빈 문자열)
+ * 유효한 식별자는 그대로 두고, 구분 문자(-, ., 공백 등)로 나뉜 단어는 camelCase로 이어 붙임
+ * @example "pets.list" => "petsList", "get-user by id" => "getUserById", "delete" => "_delete"
+ */
+export function toOperationName(operationId: string): string {
+  if (isValidTsIdentifier(operationId)) return toSafeIdentifier(operationId);
+  const [first, ...rest] = operationId.split(/[^a-zA-Z0-9_$]+/).filter(Boolean);
+  if (!first) return "";
+  return toSafeIdentifier(first + rest.map(capitalize).join(""));
+}
+
+/**
+ * HTTP 메서드와 경로로 함수 이름 생성 (operationId가 없을 때 사용)
+ * 경로 파라미터는 By 접두사, 경로 조각의 구분 문자(-, _, . 등)는 camelCase로 변환
+ * @example generateOperationId("GET", "/pet/{petId}") => "getPetByPetId"
+ * @example generateOperationId("post", "/v1.0/user-groups") => "postV10UserGroups"
+ */
+export function generateOperationId(method: string, apiPath: string): string {
+  const pathParts = apiPath
+    .split("/")
+    .filter(Boolean)
+    .map((part) => {
+      const isParam = part.startsWith("{") && part.endsWith("}");
+      const words = (isParam ? part.slice(1, -1) : part).split(/[^a-zA-Z0-9$]+/);
+      const name = words.filter(Boolean).map(capitalize).join("");
+      return isParam ? `By${name}` : name;
+    });
+
+  return toSafeIdentifier(method.toLowerCase() + pathParts.join(""));
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * JSDoc 주석 생성 (내용이 없으면 빈 문자열)
+ * 여러 줄 문자열은 줄 단위로 나누고, 주석을 닫는 문자열은 이스케이프
+ * @param indent - 각 줄 앞 들여쓰기
+ * @param inline - 한 줄 주석으로 생성 (인라인 객체 타입 프로퍼티용)
+ */
+export function formatDocComment(lines: string[], indent = "", inline = false): string {
+  const content = lines
+    .flatMap((line) => line.trimEnd().split(/\r?\n|[\u2028\u2029]/))
+    .map((line) => escapeComment(line).trimEnd());
+  while (content.length > 0 && !content[0].trim()) content.shift();
+  while (content.length > 0 && !content[content.length - 1].trim()) content.pop();
+  if (content.length === 0) return "";
+
+  if (inline || content.length === 1) {
+    return `${indent}/** ${content.map((line) => line.trim()).filter(Boolean).join(" ")} */`;
+  }
+  const body = content.map((line) => `${indent} *${line ? ` ${line}` : ""}`);
+  return [`${indent}/**`, ...body, `${indent} */`].join("\n");
 }
 
 /**
@@ -0,0 +1,182 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+import { fetchOpenApiSpec, type OpenApiSpec } from "../src/parser/openapi.js";
+import { formatOperationIdCollision, resolveOperationIds } from "../src/parser/apis.js";
+import { generateFileName } from "../src/utils/files.js";
+import type { SpecName } from "../src/config/specs.js";
+import { generateSpec, type GenerateOptions } from "./helpers.js";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const fixturePath = path.join(testDir, "fixtures", "hostile.yaml");
+const specName = "HOSTILE" as SpecName;
+
+/**
+ * 생성 코드 타입 검사 옵션 (zod, axios, React Query 타입은 저장소의 devDependencies에서 해석)
+ */
+const compilerOptions = ts.convertCompilerOptionsFromJson(
+  {
+    target: "ES2022",
+    module: "ESNext",
+    moduleResolution: "Bundler",
+    lib: ["ES2022", "DOM"],
+    jsx: "react-jsx",
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+  },
+  testDir
+).options;
+
+/**
+ * hostile 픽스처를 HOSTILE 스펙으로 생성
+ */
+function generateAll(
+  openApiSpec: OpenApiSpec,
+  outputPath: string,
+  options: GenerateOptions
+): Promise<void> {
+  return generateSpec(specName, fixturePath, openApiSpec, outputPath, options);
+}
+
+/**
+ * 디렉토리의 .ts 파일 경로 (하위 디렉토리 포함)
+ */
+async function listTsFiles(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { recursive: true });
+  return entries.filter((entry) => entry.endsWith(".ts")).map((entry) => path.join(dirPath, entry));
+}
+
+/**
+ * 생성 파일 타입 검사 (에러 메시지 목록, 없으면 빈 배열)
+ */
+function typeCheck(files: string[]): string[] {
+  const program = ts.createProgram(files, compilerOptions);
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) =>
+    ts.formatDiagnostic(diagnostic, {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: () => testDir,
+      getNewLine: () => "\n",
+    })
+  );
+}
+
+describe("generate (hostile fixture)", () => {
+  let openApiSpec: OpenApiSpec;
+  let outputRoot: string;
+
+  before(async () => {
+    openApiSpec = await fetchOpenApiSpec(fixturePath);
+    // node_modules를 찾을 수 있도록 저장소 안에 생성
+    outputRoot = await fs.mkdtemp(path.join(testDir, ".output-"));
+  });
+
+  after(async () => {
+    await fs.rm(outputRoot, { recursive: true, force: true });
+  });
+
+  it("renames colliding and invalid operationIds", () => {
+    const { ids, collisions } = resolveOperationIds(openApiSpec);
+
+    assert.equal(ids.get("GET /comments/{id}"), "_class2");
+    assert.equal(ids.get("GET /pets/list"), "petsGet");
+    assert.equal(ids.get("POST /pets"), "getPets");
+    assert.equal(ids.get("DELETE /pets/{petId}"), "_delete");
+    assert.equal(new Set(ids.values()).size, ids.size);
+    assert.deepEqual(collisions.map(formatOperationIdCollision), [
+      'GET /comments/{id}: "_class" is already used by the generated name "_class", renamed to "_class2"',
+      'GET /pets/search: "getPets" is already used by POST /pets, renamed to "getPets2"',
+      'GET /reserved/validate: "validateResponse" is already used by the generated name "validateResponse", renamed to "validateResponse2"',
+      'GET /reserved/client: "getHttpClient" is already used by the generated name "getHttpClient", renamed to "getHttpClient2"',
+      'GET /reserved/query: "useQuery" is already used by the generated name "useQuery", renamed to "useQuery2"',
+      'GET /reserved/zod: "z" is already used by the generated name "z", renamed to "z2"',
+      'GET /reserved/suspense: "suspense" is already used by the generated name "useSuspenseQuery", renamed to "suspense2"',
+      'GET /reserved/guard: "isDog" is already used by the generated name "isDog", renamed to "isDog2"',
+      'GET /pets: "getPets" is already used by POST /pets, renamed to "getPets3"',
+      'GET /pets/{petId}: "getPetsByPetId" is already used by GET /pets/by-id/{petId}, renamed to "getPetsByPetId2"',
+    ]);
+  });
+
+  const variants: Array<[string, GenerateOptions]> = [
+    [
+      "axios, inline models, zod, hooks",
+      {
+        httpClient: "axios",
+        generate: {
+          queryHook: true,
+          suspenseHook: true,
+          mutationHook: true,
+          zod: true,
+          validateResponses: true,
+        },
+      },
+    ],
+    [
+      "fetch, split models, const enums, formats",
+      {
+        httpClient: "fetch",
+        generate: {
+          models: "split",
+          enums: "const",
+          zod: true,
+          formats: { "date-time": "Date", date: "Date", int64: "bigint" },
+        },
+      },
+    ],
+    ["axios, single model file", { httpClient: "axios", generate: { models: "single", enums: "const" } }],
+  ];
+
+  for (const [name, options] of variants) {
+    it(`generates code that type-checks (${name})`, async () => {
+      const outputPath = await fs.mkdtemp(path.join(outputRoot, "variant-"));
+      await generateAll(openApiSpec, outputPath, options);
+
+      const files = await listTsFiles(outputPath);
+      assert.deepEqual(typeCheck(files), []);
+
+      for (const file of files) {
+        const content = await fs.readFile(file, "utf-8");
+        assert.doesNotMatch(content, /\*\/\s*console\.log/, `comment closed early in ${file}`);
+      }
+    });
+  }
+
+  it("keeps renamed operations in their own files", async () => {
+    const outputPath = await fs.mkdtemp(path.join(outputRoot, "names-"));
+    await generateAll(openApiSpec, outputPath, { httpClient: "axios", generate: {} });
+
+    const read = (method: string, apiPath: string) =>
+      fs.readFile(path.join(outputPath, specName, generateFileName(method, apiPath)), "utf-8");
+    assert.match(await read("post", "/pets"), /export const getPets = /);
+    assert.match(await read("get", "/pets/search"), /export const getPets2 = /);
+    assert.match(await read("get", "/pets"), /export const getPets3 = /);
+    assert.match(await read("get", "/comments/{id}"), /export const _class2 = /);
+    assert.match(await read("get", "/pets/list"), /export const petsGet = /);
+  });
+
+  it("fills in server variables whose names are not identifiers", async () => {
+    const outputPath = await fs.mkdtemp(path.join(outputRoot, "servers-"));
+    await generateAll(openApiSpec, outputPath, { httpClient: "fetch", generate: {} });
+
+    const content = await fs.readFile(path.join(outputPath, specName, "spec.ts"), "utf-8");
+    assert.match(content, /"https:\/\/acme\.example\.com\/v1"/);
+  });
+
+  it("keeps nullable on array items, map values and the response root", async () => {
+    const outputPath = await fs.mkdtemp(path.join(outputRoot, "nullable-"));
+    await generateAll(openApiSpec, outputPath, { httpClient: "axios", generate: { zod: true } });
+
+    const content = await fs.readFile(
+      path.join(outputPath, specName, generateFileName("get", "/nullable")),
+      "utf-8"
+    );
+    assert.match(content, /tags\?: \(string \| null\)\[\]/);
+    assert.match(content, /scores\?: Record<string, number \| null>/);
+    assert.match(content, /export type Response = \{.*\} \| null;/);
+    assert.match(content, /z\.array\(z\.string\(\)\.nullable\(\)\)/);
+    assert.match(content, /z\.record\(z\.string\(\), z\.number\(\)\.nullable\(\)\)/);
+  });
+});
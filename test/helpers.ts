@@ -0,0 +1,61 @@
+import path from "path";
+import type { OpenApiSpec } from "../src/parser/openapi.js";
+import { extractAllApis } from "../src/parser/apis.js";
+import { generateApiFile } from "../src/generator/fileGenerator.js";
+import { ensureUtilityFiles, generateSpecRegistry } from "../src/generator/templates.js";
+import { generateModelFiles } from "../src/generator/modelGenerator.js";
+import { generateSpecFile } from "../src/generator/specGenerator.js";
+import { getReactQueryConfig } from "../src/cli/prompts/selectReactQueryVersion.js";
+import { generateFileName } from "../src/utils/files.js";
+import type { GenerateConfig, HttpClientType } from "../src/config/loader.js";
+import type { SpecName } from "../src/config/specs.js";
+
+export interface GenerateOptions {
+  httpClient: HttpClientType;
+  generate: GenerateConfig;
+}
+
+/**
+ * generate 명령과 같은 순서로 스펙 전체를 outputPath/specName에 생성
+ */
+export async function generateSpec(
+  specName: SpecName,
+  specUrl: string,
+  openApiSpec: OpenApiSpec,
+  outputPath: string,
+  { httpClient, generate }: GenerateOptions
+): Promise<void> {
+  const specOutputPath = path.join(outputPath, specName);
+  const models = generate.models ?? "inline";
+
+  await ensureUtilityFiles(outputPath, true, httpClient);
+  await generateSpecFile({ specName, specOutputPath, openApiSpec, specConfig: { url: specUrl } });
+  await generateSpecRegistry(outputPath);
+  if (models !== "inline") {
+    await generateModelFiles({
+      specName,
+      specOutputPath,
+      openApiSpec,
+      mode: models,
+      enums: generate.enums,
+      formats: generate.formats,
+      zod: generate.zod || generate.validateResponses,
+    });
+  }
+
+  for (const api of extractAllApis(openApiSpec)) {
+    await generateApiFile({
+      specName,
+      api,
+      outputPath: path.join(specOutputPath, generateFileName(api.method, api.path)),
+      openApiSpec,
+      reactQueryConfig: getReactQueryConfig("v5"),
+      hookOptions: generate,
+      models,
+      enums: generate.enums,
+      formats: generate.formats,
+      zod: generate.zod,
+      validateResponses: generate.validateResponses,
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import axios, { AxiosError, type InternalAxiosRequestConfig } from "axios";
+import { fetchOpenApiSpec, type OpenApiSpec } from "../src/parser/openapi.js";
+import { generateFileName } from "../src/utils/files.js";
+import type { SpecName } from "../src/config/specs.js";
+import { generateSpec } from "./helpers.js";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const runtimeFixturePath = path.join(testDir, "fixtures", "runtime.yaml");
+const swagger2FixturePath = path.join(testDir, "fixtures", "swagger2.yaml");
+// 대문자 식별자가 아닌 스펙 이름 (접두사 처리 확인용)
+const specName = "my-api" as SpecName;
+const legacySpecName = "legacy" as SpecName;
+
+const formats = { "date-time": "Date", date: "Date", int64: "bigint" };
+
+interface RecordedRequest {
+  url: string;
+  method?: string;
+  headers: Headers;
+  body: unknown;
+}
+
+type Module = Record<string, any>;
+
+/**
+ * 생성된 모듈 import (tsx가 .ts를 직접 실행)
+ */
+function importGenerated(outputPath: string, ...segments: string[]): Promise<Module> {
+  return import(pathToFileURL(path.join(outputPath, ...segments)).href);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("generated client (runtime)", () => {
+  let outputRoot: string;
+  let runtimeSpec: OpenApiSpec;
+  let legacySpec: OpenApiSpec;
+
+  let oprq: Module;
+  let endpoint: (method: string, apiPath: string, spec?: SpecName) => Promise<Module>;
+  let requests: RecordedRequest[];
+  let respond: () => Response;
+
+  // 요청을 기록하고 respond()로 응답하는 fetch
+  const recordFetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    requests.push({
+      url: String(input),
+      method: init.method,
+      headers: new Headers(init.headers),
+      body: init.body,
+    });
+    return respond();
+  };
+
+  before(async () => {
+    runtimeSpec = await fetchOpenApiSpec(runtimeFixturePath);
+    legacySpec = await fetchOpenApiSpec(swagger2FixturePath);
+    // node_modules를 찾을 수 있도록 저장소 안에 생성
+    outputRoot = await fs.mkdtemp(path.join(testDir, ".output-"));
+
+    const outputPath = path.join(outputRoot, "fetch");
+    const options = { httpClient: "fetch" as const, generate: { formats } };
+    await generateSpec(specName, runtimeFixturePath, runtimeSpec, outputPath, options);
+    await generateSpec(legacySpecName, swagger2FixturePath, legacySpec, outputPath, options);
+
+    oprq = await importGenerated(outputPath, "__oprq__", "index.ts");
+    endpoint = (method, apiPath, spec = specName) =>
+      importGenerated(outputPath, spec, generateFileName(method, apiPath));
+
+    oprq.setHttpClient({ fetch: recordFetch });
+    oprq.setAuthProvider({
+      bearer: () => "token",
+      apiKey: (scheme: string) => `${scheme}-value`,
+    });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => new Response(null, { status: 204 });
+  });
+
+  after(async () => {
+    await fs.rm(outputRoot, { recursive: true, force: true });
+  });
+
+  it("serializes path and query parameters by their style and explode", async () => {
+    const { getItem } = await endpoint("get", "/items/{id}/{slot}/{range}");
+    respond = () => jsonResponse({ id: "1" });
+
+    await getItem({
+      pathParams: { id: "a/b c#é", slot: ["x", "y"], range: { from: 1, to: 2 } },
+      queryParams: {
+        ids: [1, 2],
+        tags: ["a", "b"],
+        flags: ["c", "d"],
+        filter: { status: "new", size: 2 },
+        color: ["red", "blue"],
+      },
+    });
+
+    assert.equal(
+      requests[0].url,
+      "https://eu.api.test/v1/items/a%2Fb%20c%23%C3%A9/.x.y/;range=from,1,to,2" +
+        "?ids=1,2&tags=a%20b&flags=c|d&filter[status]=new&filter[size]=2&color=red&color=blue"
+    );
+  });
+
+  it("rejects missing path parameters", async () => {
+    const { getItem } = await endpoint("get", "/items/{id}/{slot}/{range}");
+
+    await assert.rejects(() => getItem({ pathParams: { id: "1", slot: ["x"] } }), /range/);
+    assert.equal(requests.length, 0);
+  });
+
+  it("revives response values and serializes request values of mapped formats", async () => {
+    const { createEvent } = await endpoint("post", "/events");
+    respond = () =>
+      jsonResponse({
+        at: "2024-05-01T10:00:00.000Z",
+        day: "2024-05-01",
+        count: "9007199254740993",
+        history: ["2024-01-01T00:00:00.000Z"],
+      });
+
+    const event = await createEvent({
+      body: {
+        at: new Date("2024-05-01T10:00:00.000Z"),
+        day: new Date("2024-05-01"),
+        count: 9007199254740993n,
+        history: [new Date(0)],
+      },
+    });
+
+    assert.deepEqual(JSON.parse(requests[0].body as string), {
+      at: "2024-05-01T10:00:00.000Z",
+      day: "2024-05-01",
+      count: "9007199254740993",
+      history: ["1970-01-01T00:00:00.000Z"],
+    });
+    assert.deepEqual(event, {
+      at: new Date("2024-05-01T10:00:00.000Z"),
+      day: new Date("2024-05-01"),
+      count: 9007199254740993n,
+      history: [new Date("2024-01-01T00:00:00.000Z")],
+    });
+  });
+
+  it("applies credentials only to operations that require them", async () => {
+    const { getItem } = await endpoint("get", "/items/{id}/{slot}/{range}");
+    const { createEvent } = await endpoint("post", "/events");
+    const { getWithQueryKey } = await endpoint("get", "/keys/query");
+    const { getWithHeaderKey } = await endpoint("get", "/keys/header");
+    const { getWithCookieKey } = await endpoint("get", "/keys/cookie");
+    respond = () => jsonResponse({ id: "1", at: "2024-05-01T10:00:00.000Z", day: "2024-05-01" });
+
+    await getItem({ pathParams: { id: "1", slot: ["x"], range: {} } });
+    await createEvent({ body: { at: new Date(0), day: new Date(0) } });
+    respond = () => new Response(null, { status: 204 });
+    await getWithQueryKey();
+    await getWithHeaderKey();
+    await getWithCookieKey();
+
+    const [publicRequest, bearer, query, header, cookie] = requests;
+    assert.equal(publicRequest.headers.get("Authorization"), null);
+    assert.equal(bearer.headers.get("Authorization"), "Bearer token");
+    assert.equal(query.url, "https://eu.api.test/v1/keys/query?api_key=queryKey-value");
+    assert.equal(query.headers.get("Authorization"), null);
+    assert.equal(header.headers.get("X-Api-Key"), "headerKey-value");
+    assert.equal(cookie.headers.get("Cookie"), "session=cookieKey-value");
+  });
+
+  it("throws ApiError with the status and body of error responses", async () => {
+    const { getItem } = await endpoint("get", "/items/{id}/{slot}/{range}");
+    const args = { pathParams: { id: "1", slot: ["x"], range: {} } };
+
+    for (const [status, body] of [
+      [404, { message: "missing" }],
+      [422, { fields: ["id"] }],
+    ] as const) {
+      respond = () => jsonResponse(body, status);
+      await assert.rejects(
+        () => getItem(args),
+        (error: any) => {
+          assert.ok(oprq.isApiError(error));
+          assert.equal(error.status, status);
+          assert.deepEqual(error.body, body);
+          return true;
+        }
+      );
+    }
+  });
+
+  it("converts axios error responses to ApiError", async () => {
+    const outputPath = path.join(outputRoot, "axios");
+    await generateSpec(specName, runtimeFixturePath, runtimeSpec, outputPath, {
+      httpClient: "axios",
+      generate: {},
+    });
+    const axiosOprq = await importGenerated(outputPath, "__oprq__", "index.ts");
+    const { getItem } = await importGenerated(
+      outputPath,
+      specName,
+      generateFileName("get", "/items/{id}/{slot}/{range}")
+    );
+
+    const instance = axios.create({
+      adapter: async (config: InternalAxiosRequestConfig) => {
+        const response = { data: { fields: ["id"] }, status: 422, statusText: "", headers: {}, config };
+        throw new AxiosError("Unprocessable", AxiosError.ERR_BAD_REQUEST, config, undefined, response);
+      },
+    });
+    axiosOprq.setHttpClient(instance);
+
+    await assert.rejects(
+      () => getItem({ pathParams: { id: "1", slot: ["x"], range: {} } }),
+      (error: any) => {
+        assert.ok(axiosOprq.isApiError(error));
+        assert.equal(error.status, 422);
+        assert.deepEqual(error.body, { fields: ["id"] });
+        assert.ok(error.originalError instanceof AxiosError);
+        return true;
+      }
+    );
+  });
+
+  it("strips the prefix of spec names that are not uppercase identifiers", async () => {
+    const { getWithHeaderKey } = await endpoint("get", "/keys/header");
+    // 클라이언트에 base URL이 있으면 접두사가 붙은 URL이 fetch 어댑터까지 전달됨
+    oprq.setHttpClient(specName, { baseUrl: "https://client.test/base", fetch: recordFetch });
+
+    try {
+      await getWithHeaderKey();
+    } finally {
+      oprq.setHttpClient(specName, { fetch: recordFetch });
+    }
+    assert.equal(requests[0].url, "https://client.test/base/keys/header");
+  });
+
+  it("converts Swagger 2.0 specs and calls them like OpenAPI 3 specs", async () => {
+    assert.match(legacySpec.openapi, /^3\./);
+    assert.deepEqual(legacySpec.servers, [{ url: "https://legacy.test/api" }]);
+    assert.ok(legacySpec.components?.schemas?.Pet);
+
+    const { updatePet } = await endpoint("put", "/pets/{petId}", legacySpecName);
+    respond = () => jsonResponse({ name: "Rex" });
+
+    const pet = await updatePet({ pathParams: { petId: 1 }, body: { name: "Rex", tags: ["good"] } });
+
+    assert.deepEqual(pet, { name: "Rex" });
+    assert.equal(requests[0].url, "https://legacy.test/api/pets/1");
+    assert.equal(requests[0].method, "PUT");
+    assert.equal(requests[0].headers.get("Content-Type"), "application/json");
+    assert.deepEqual(JSON.parse(requests[0].body as string), { name: "Rex", tags: ["good"] });
+  });
+});